@@ -0,0 +1,182 @@
+import { BigNumberish, BigNumber } from 'ethers'
+import { HOUR } from './constants'
+import { Cache, CacheAdapter, CacheDataClass } from './types'
+import { getAddress } from './utils/general'
+
+/**
+ * The data class of each cached field.
+ * Immutable fields never change, period fields change when a new period starts.
+ */
+export const CACHE_FIELDS = {
+  ammAddress: 'immutable',
+  futureAddress: 'immutable',
+  ibtAddress: 'immutable',
+  ptAddress: 'immutable',
+  underlyingAddress: 'immutable',
+  lpAddress: 'immutable',
+  symbol: 'immutable',
+  name: 'immutable',
+  decimals: 'immutable',
+  permitSupported: 'immutable',
+  platform: 'immutable',
+  periodDuration: 'immutable',
+  fytAddress: 'period',
+  nextPeriodTimestamp: 'period'
+} as const
+
+export type CacheField = keyof typeof CACHE_FIELDS
+
+/**
+ * The default time to live of each data class, in seconds. Immutable data never expires.
+ */
+export const DEFAULT_CACHE_TTLS: Record<CacheDataClass, number | undefined> = {
+  immutable: undefined,
+  period: HOUR
+}
+
+/**
+ * Create an in-memory cache adapter, the default one of the SDK.
+ * @returns - a CacheAdapter, whose entries expire after their ttl.
+ */
+export const createMemoryCacheAdapter = (): CacheAdapter => {
+  const entries = new Map<string, { value: string; expiresAt?: number }>()
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key)
+
+      if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return undefined
+      }
+
+      return entry?.value
+    },
+    set: (key, value, ttl) => {
+      entries.set(key, {
+        value,
+        expiresAt: ttl === undefined ? undefined : Date.now() + ttl * 1000
+      })
+    },
+    delete: (key) => {
+      entries.delete(key)
+    }
+  }
+}
+
+/**
+ * Create a cache for the fetchers of the SDK.
+ * Adapters store strings, so that they can be backed by localStorage, Redis or any key-value store.
+ * @param adapter - The storage of the cache. Default is an in-memory adapter.
+ * @param ttls - The time to live of each data class, in seconds.
+ * @returns - a Cache
+ */
+export const createCache = (
+  adapter: CacheAdapter = createMemoryCacheAdapter(),
+  ttls: Partial<Record<CacheDataClass, number>> = {}
+): Cache => ({
+  adapter,
+  ttls: { ...DEFAULT_CACHE_TTLS, ...ttls }
+})
+
+/**
+ * Scope a cache to a chain, so that an adapter shared by several chains never serves the data of another one.
+ * @param cache - The cache to scope.
+ * @param chainId - The chain id of the network.
+ * @returns - a Cache, with the same adapter and ttls.
+ */
+export const scopeCache = (cache: Cache, chainId: number): Cache => ({
+  ...cache,
+  chainId
+})
+
+export const getCacheKey = (
+  address: string,
+  field: CacheField | 'periodIndex',
+  chainId?: number
+) =>
+  chainId === undefined
+    ? `apwine:${getAddress(address)}:${field}`
+    : `apwine:${chainId}:${getAddress(address)}:${field}`
+
+/**
+ * Read a field of a contract from the cache, or fetch and cache it.
+ * @param cache - The cache to use, the value is always fetched if undefined.
+ * @param address - The address of the contract the field belongs to.
+ * @param field - The cached field, which defines its data class.
+ * @param fetchValue - Fetch the value of the field.
+ * @returns - the value of the field.
+ */
+export const withCache = async (
+  cache: Cache | undefined,
+  address: string,
+  field: CacheField,
+  fetchValue: () => Promise<string>
+) => {
+  if (!cache) {
+    return fetchValue()
+  }
+
+  const key = getCacheKey(address, field, cache.chainId)
+  const cachedValue = await cache.adapter.get(key)
+
+  if (cachedValue !== undefined && cachedValue !== null) {
+    return cachedValue
+  }
+
+  const value = await fetchValue()
+
+  await cache.adapter.set(key, value, cache.ttls[CACHE_FIELDS[field]])
+
+  return value
+}
+
+/**
+ * Remove the period fields of contracts from the cache.
+ * @param cache - The target cache.
+ * @param addresses - The addresses of the contracts, e.g. a future and its AMM.
+ */
+export const invalidatePeriodCache = async (
+  cache: Cache,
+  addresses: string[]
+) => {
+  const periodFields = (Object.keys(CACHE_FIELDS) as CacheField[]).filter(
+    (field) => CACHE_FIELDS[field] === 'period'
+  )
+
+  await Promise.all(
+    addresses.flatMap((address) =>
+      periodFields.map((field) =>
+        cache.adapter.delete(getCacheKey(address, field, cache.chainId))
+      )
+    )
+  )
+}
+
+/**
+ * Invalidate the period fields of a future and its AMM when the period index of the future changed.
+ * @param cache - The target cache.
+ * @param future - The address of the future.
+ * @param amm - The address of the AMM of the future.
+ * @param periodIndex - The latest period index of the future.
+ * @returns - whether the period changed since the last sync.
+ */
+export const syncPeriodCache = async (
+  cache: Cache,
+  future: string,
+  amm: string,
+  periodIndex: BigNumberish
+) => {
+  const key = getCacheKey(future, 'periodIndex', cache.chainId)
+  const index = BigNumber.from(periodIndex).toString()
+  const cachedIndex = await cache.adapter.get(key)
+
+  if (cachedIndex === index) {
+    return false
+  }
+
+  await invalidatePeriodCache(cache, [future, amm])
+  await cache.adapter.set(key, index)
+
+  return cachedIndex !== undefined && cachedIndex !== null
+}
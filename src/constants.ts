@@ -1,5 +1,5 @@
 import config from './config.json'
-import { Network, Pool } from './types'
+import { Network, PairId, Pool } from './types'
 
 export const MINUTE = 60
 export const HOUR = MINUTE * 60
@@ -21,3 +21,11 @@ export const APW_TOKENS = ['PT', 'Underlying', 'FYT'] as const
 
 export const POOL_ONE: Pool = ['PT', 'Underlying']
 export const POOL_TWO: Pool = ['PT', 'FYT']
+
+/**
+ * The tokens of each pool by pair id, in the order of their reserves and token ids.
+ */
+export const POOLS: Record<PairId, Pool> = {
+  0: POOL_ONE,
+  1: POOL_TWO
+}
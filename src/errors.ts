@@ -0,0 +1,258 @@
+import { ethers } from 'ethers'
+import errors from './errors.json'
+import { Network } from './types'
+
+export type ErrorCode = keyof typeof errors
+
+/**
+ * The Error(string) selector, used by solidity for revert reasons.
+ */
+const REVERT_SELECTOR = '0x08c379a0'
+
+/**
+ * Base class of every error returned (or thrown) by the SDK.
+ */
+export class APWineSDKError extends Error {
+  code: ErrorCode
+
+  constructor(code: ErrorCode, message: string = errors[code]) {
+    super(message)
+    this.name = 'APWineSDKError'
+    this.code = code
+  }
+}
+
+export class NoSignerError extends APWineSDKError {
+  constructor() {
+    super('NoSigner')
+    this.name = 'NoSignerError'
+  }
+}
+
+export class NoControllerError extends APWineSDKError {
+  constructor() {
+    super('NoController')
+    this.name = 'NoControllerError'
+  }
+}
+
+export class FaultySlippageError extends APWineSDKError {
+  constructor() {
+    super('FaultySlippage')
+    this.name = 'FaultySlippageError'
+  }
+}
+
+export class InvalidSwapRouteError extends APWineSDKError {
+  constructor() {
+    super('InvalidSwapRoute')
+    this.name = 'InvalidSwapRouteError'
+  }
+}
+
+export class NoSuchTokenError extends APWineSDKError {
+  constructor() {
+    super('NoSuchToken')
+    this.name = 'NoSuchTokenError'
+  }
+}
+
+export class UninitializedPoolError extends APWineSDKError {
+  constructor() {
+    super('UninitializedPool')
+    this.name = 'UninitializedPoolError'
+  }
+}
+
+export class MaxRatioExceededError extends APWineSDKError {
+  constructor() {
+    super('MaxRatioExceeded')
+    this.name = 'MaxRatioExceededError'
+  }
+}
+
+export class PermitNotSupportedError extends APWineSDKError {
+  constructor() {
+    super('PermitNotSupported')
+    this.name = 'PermitNotSupportedError'
+  }
+}
+
+/**
+ * A network which is neither built in nor registered.
+ */
+export class UnsupportedNetworkError extends APWineSDKError {
+  network?: Network
+
+  constructor(network?: Network) {
+    super(
+      'UnsupportedNetwork',
+      network === undefined
+        ? errors.UnsupportedNetwork
+        : `${errors.UnsupportedNetwork} Network: ${network.toString()}`
+    )
+    this.name = 'UnsupportedNetworkError'
+    this.network = network
+  }
+}
+
+export class InvalidNetworkConfigError extends APWineSDKError {
+  reason?: string
+
+  constructor(reason?: string) {
+    super(
+      'InvalidNetworkConfig',
+      reason
+        ? `${errors.InvalidNetworkConfig} Reason: ${reason}`
+        : errors.InvalidNetworkConfig
+    )
+    this.name = 'InvalidNetworkConfigError'
+    this.reason = reason
+  }
+}
+
+/**
+ * A provider or a signer connected to another chain than the network of the SDK.
+ */
+export class NetworkMismatchError extends APWineSDKError {
+  expectedChainId?: number
+  chainId?: number
+  source?: 'provider' | 'signer'
+
+  constructor(
+    expectedChainId?: number,
+    chainId?: number,
+    source?: 'provider' | 'signer'
+  ) {
+    super(
+      'NetworkMismatch',
+      source
+        ? `${errors.NetworkMismatch} The ${source} is on chain ${chainId}, expected ${expectedChainId}.`
+        : errors.NetworkMismatch
+    )
+    this.name = 'NetworkMismatchError'
+    this.expectedChainId = expectedChainId
+    this.chainId = chainId
+    this.source = source
+  }
+}
+
+/**
+ * A reverted contract call, with the decoded revert reason if there is one.
+ */
+export class ContractError extends APWineSDKError {
+  reason?: string
+  contractAddress?: string
+  method?: string
+  originalError: unknown
+
+  constructor(
+    originalError: unknown,
+    reason?: string,
+    contractAddress?: string,
+    method?: string
+  ) {
+    super(
+      'ContractError',
+      reason ? `${errors.ContractError} Reason: ${reason}` : errors.ContractError
+    )
+    this.name = 'ContractError'
+    this.originalError = originalError
+    this.reason = reason
+    this.contractAddress = contractAddress
+    this.method = method
+  }
+}
+
+const errorClasses: Record<
+  Exclude<ErrorCode, 'ContractError'>,
+  new () => APWineSDKError
+> = {
+  NoSigner: NoSignerError,
+  NoController: NoControllerError,
+  FaultySlippage: FaultySlippageError,
+  InvalidSwapRoute: InvalidSwapRouteError,
+  NoSuchToken: NoSuchTokenError,
+  UninitializedPool: UninitializedPoolError,
+  MaxRatioExceeded: MaxRatioExceededError,
+  UnsupportedNetwork: UnsupportedNetworkError,
+  InvalidNetworkConfig: InvalidNetworkConfigError,
+  NetworkMismatch: NetworkMismatchError,
+  PermitNotSupported: PermitNotSupportedError
+}
+
+/**
+ * Create the typed error instance of an error code.
+ * @param code - the code of the error.
+ * @returns - an APWineSDKError subclass instance.
+ */
+export const createError = (code: Exclude<ErrorCode, 'ContractError'>) =>
+  new errorClasses[code]()
+
+/**
+ * Decode the revert reason from the data of a reverted call.
+ * @param data - the hex data returned by the reverted call.
+ * @returns - the revert reason, or undefined if it can not be decoded.
+ */
+export const decodeRevertData = (data: unknown) => {
+  if (typeof data !== 'string' || !data.startsWith(REVERT_SELECTOR)) {
+    return undefined
+  }
+
+  try {
+    const [reason] = ethers.utils.defaultAbiCoder.decode(
+      ['string'],
+      ethers.utils.hexDataSlice(data, 4)
+    )
+
+    return reason as string
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Find the revert reason in an error thrown by ethers, or by the node.
+ * @param e - the thrown error.
+ * @returns - the revert reason, or undefined if there is none.
+ */
+export const findRevertReason = (e: unknown): string | undefined => {
+  if (typeof e !== 'object' || e === null) {
+    return undefined
+  }
+
+  const { reason, data, error, message } = e as Record<string, unknown>
+
+  if (typeof reason === 'string') {
+    return reason.replace(/^execution reverted: /, '')
+  }
+
+  const decoded = decodeRevertData(data)
+
+  if (decoded) {
+    return decoded
+  }
+
+  if (error) {
+    return findRevertReason(error)
+  }
+
+  if (typeof message === 'string') {
+    return message.match(/execution reverted: ([^"]*)/)?.[1]
+  }
+
+  return undefined
+}
+
+/**
+ * Wrap an error thrown by a contract call into a ContractError.
+ * @param e - the thrown error.
+ * @param contractAddress - the address of the called contract.
+ * @param method - the called contract method.
+ * @returns - a ContractError.
+ */
+export const decodeContractError = (
+  e: unknown,
+  contractAddress?: string,
+  method?: string
+) => new ContractError(e, findRevertReason(e), contractAddress, method)
@@ -20,11 +20,25 @@ import {
   error,
   getAddress,
   getNetworkChainId,
-  getNetworkConfig
+  getNetworkConfig,
+  isError,
+  queryPaginated
 } from './utils/general'
 import {
+  isDryRun,
+  sendTransaction,
+  waitForTransaction
+} from './utils/transactions'
+import { PAIR_IDS } from './constants'
+import { syncPeriodCache, withCache } from './cache'
+import { isPermitSupported, signPermit } from './permit'
+import {
+  AMMPeriod,
+  Cache,
   FutureAggregate,
+  HistoryQuery,
   Network,
+  Options,
   SDKFunctionReturnType,
   Transaction
 } from './types'
@@ -32,7 +46,8 @@ import {
 export const fetchFutureAggregateFromIndex = async (
   signerOrProvider: Signer | Provider,
   network: Network,
-  index: number
+  index: number,
+  cache?: Cache
 ) => {
   const registry = getRegistryContract(signerOrProvider, network)
   const futureAddress = getAddress(
@@ -42,7 +57,9 @@ export const fetchFutureAggregateFromIndex = async (
   return fetchFutureAggregateFromAddress(
     signerOrProvider,
     network,
-    futureAddress
+    futureAddress,
+    null,
+    cache
   )
 }
 
@@ -50,7 +67,8 @@ export const fetchFutureAggregateFromAddress = async (
   signerOrProvider: Signer | Provider,
   network: Network,
   address: string,
-  controller?: Controller | null
+  controller?: Controller | null,
+  cache?: Cache
 ): Promise<FutureAggregate> => {
   const _controller =
     controller ?? (await getControllerContract(signerOrProvider, network))
@@ -64,19 +82,35 @@ export const fetchFutureAggregateFromAddress = async (
     platform,
     depositsPaused,
     withdrawalsPaused,
-    nextPeriodIndex
+    nextPeriodIndex,
+    currentPeriodIndex
   ] = await Promise.all([
-    fetchAMM(signerOrProvider, network, futureContract),
-    futureContract.getIBTAddress().then(getAddress),
-    futureContract.getPTAddress().then(getAddress),
-    futureContract.PERIOD_DURATION(),
-    futureContract.PLATFORM_NAME(),
+    fetchAMM(signerOrProvider, network, futureContract, cache),
+    withCache(cache, address, 'ibtAddress', () =>
+      futureContract.getIBTAddress()
+    ).then(getAddress),
+    withCache(cache, address, 'ptAddress', () =>
+      futureContract.getPTAddress()
+    ).then(getAddress),
+    withCache(cache, address, 'periodDuration', () =>
+      futureContract.PERIOD_DURATION().then(String)
+    ).then((duration) => BigNumber.from(duration)),
+    withCache(cache, address, 'platform', () => futureContract.PLATFORM_NAME()),
     _controller.isDepositsPaused(address),
     _controller.isWithdrawalsPaused(address),
-    futureContract.getNextPeriodIndex()
+    futureContract.getNextPeriodIndex(),
+    futureContract.getCurrentPeriodIndex()
   ])
 
-  const nextPeriodTimestamp = await _controller.getNextPeriodStart(period)
+  if (cache) {
+    await syncPeriodCache(cache, address, amm.address, currentPeriodIndex)
+  }
+
+  const nextPeriodTimestamp = BigNumber.from(
+    await withCache(cache, address, 'nextPeriodTimestamp', () =>
+      _controller.getNextPeriodStart(period).then(String)
+    )
+  )
 
   return {
     amm,
@@ -93,19 +127,148 @@ export const fetchFutureAggregateFromAddress = async (
   }
 }
 
-export const fetchAllFutureAggregates = async (
+/**
+ * Fetch the blocks at which the periods of an AMM started, with their timestamps, by period index.
+ */
+const fetchPeriodStarts = async (
+  provider: Provider,
+  amm: AMM,
+  query: Omit<HistoryQuery, 'account'>
+) => {
+  const switches = await queryPaginated(
+    (from, to) => amm.queryFilter(amm.filters.PeriodSwitched(null), from, to),
+    query.fromBlock,
+    query.toBlock ?? (await provider.getBlockNumber()),
+    query.pageSize
+  )
+
+  return new Map(
+    await Promise.all(
+      switches.map(
+        async ({ args, blockNumber, getBlock }) =>
+          [
+            args._newPeriodIndex.toNumber(),
+            {
+              blockNumber,
+              timestamp: BigNumber.from((await getBlock()).timestamp)
+            }
+          ] as const
+      )
+    )
+  )
+}
+
+/**
+ * Fetch the history of an AMM, with one record for each of its periods.
+ * Past periods start and end at the PeriodSwitched events of the AMM, and their reserves are read at the block before their end, which needs an archive node.
+ * Without a block range, or for switches outside of it, their timestamps and reserves are null.
+ * The future period indexes assume that the AMM followed every period of its future since its creation.
+ * @param signerOrProvider
+ * @param network - The network of the AMM.
+ * @param amm - The target AMM.
+ * @param controller - The Controller instance, fetched if not passed.
+ * @param query - The block range of the period switches, e.g. from the deployment of the AMM, up to the latest block by default.
+ * @returns - A collection of AMMPeriods, ordered by period index.
+ */
+export const fetchAMMPeriods = async (
   signerOrProvider: Signer | Provider,
   network: Network,
-  amm: AMM
-) => {
-  const currentPeriodIndex = (await amm.currentPeriodIndex()).toNumber()
+  amm: AMM,
+  controller?: Controller | null,
+  query?: Omit<HistoryQuery, 'account'>
+): Promise<AMMPeriod[]> => {
+  const _controller =
+    controller ?? (await getControllerContract(signerOrProvider, network))
+  const provider = Signer.isSigner(signerOrProvider)
+    ? signerOrProvider.provider!
+    : signerOrProvider
+  const future = getFutureVaultContract(
+    signerOrProvider,
+    await amm.getFutureAddress()
+  )
+
+  const [
+    ammId,
+    ammPeriodIndex,
+    futurePeriodIndex,
+    periodDuration,
+    ptAddress,
+    currentPairs,
+    periodStarts
+  ] = await Promise.all([
+    amm.ammId(),
+    amm.currentPeriodIndex().then((index) => index.toNumber()),
+    future.getCurrentPeriodIndex().then((index) => index.toNumber()),
+    future.PERIOD_DURATION(),
+    amm.getPTAddress().then(getAddress),
+    Promise.all(PAIR_IDS.map((pairId) => amm.getPairWithID(pairId))),
+    query ? fetchPeriodStarts(provider, amm, query) : new Map<number, never>()
+  ])
+
+  const nextPeriodStart = await _controller.getNextPeriodStart(periodDuration)
+  // The AMM may have been created after the first period of its future.
+  const periodIndexOffset = futurePeriodIndex - ammPeriodIndex
+
   return Promise.all(
-    range(0, currentPeriodIndex).map((periodIndex) =>
-      fetchFutureAggregateFromIndex(signerOrProvider, network, periodIndex)
-    )
+    range(0, ammPeriodIndex + 1).map(async (periodIndex) => {
+      const isCurrent = periodIndex === ammPeriodIndex
+      const start = periodStarts.get(periodIndex)
+      const end = periodStarts.get(periodIndex + 1)
+
+      const [fytAddress, lpTokenIds, pastPairs] = await Promise.all([
+        future.getFYTofPeriod(periodIndex + periodIndexOffset).then(getAddress),
+        Promise.all(
+          PAIR_IDS.map((pairId) =>
+            amm.getLPTokenId(ammId, periodIndex, pairId)
+          )
+        ),
+        !isCurrent && end
+          ? Promise.all(
+            PAIR_IDS.map((pairId) =>
+              amm.getPairWithID(pairId, { blockTag: end.blockNumber - 1 })
+            )
+          )
+          : null
+      ])
+
+      const lpTotalSupplies = await Promise.all(
+        lpTokenIds.map((id) => amm.getTotalSupplyWithTokenId(id))
+      )
+      const pairs = isCurrent ? currentPairs : pastPairs
+
+      return {
+        periodIndex,
+        futurePeriodIndex: periodIndex + periodIndexOffset,
+        isCurrent,
+        startTimestamp:
+          start?.timestamp ??
+          (isCurrent ? nextPeriodStart.sub(periodDuration) : null),
+        endTimestamp: isCurrent ? nextPeriodStart : end?.timestamp ?? null,
+        ptAddress,
+        fytAddress,
+        lpTokenIds: lpTokenIds as [BigNumber, BigNumber],
+        lpTotalSupplies: lpTotalSupplies as [BigNumber, BigNumber],
+        reserves: pairs
+          ? (pairs.map(({ balances }) => balances) as [
+              [BigNumber, BigNumber],
+              [BigNumber, BigNumber]
+            ])
+          : null
+      }
+    })
   )
 }
 
+/**
+ * @deprecated - Use fetchAMMPeriods, which this function delegates to.
+ */
+export const fetchAllFutureAggregates = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  amm: AMM,
+  controller?: Controller | null
+) => fetchAMMPeriods(signerOrProvider, network, amm, controller)
+
 export const fetchAllFutureVaults = async (
   signerOrProvider: Signer | Provider,
   network: Network
@@ -127,26 +290,34 @@ export const fetchAllFutureVaults = async (
 export const fetchAMM = async (
   signerOrProvider: Signer | Provider,
   network: Network,
-  future: FutureVault
+  future: FutureVault,
+  cache?: Cache
 ) => {
   const ammRegistry = AMMRegistry__factory.connect(
     getNetworkConfig(network).AMM_REGISTRY,
     signerOrProvider
   )
-  const ammAddress = await ammRegistry.getFutureAMMPool(future.address)
+  const ammAddress = await withCache(cache, future.address, 'ammAddress', () =>
+    ammRegistry.getFutureAMMPool(future.address)
+  )
 
   return AMM__factory.connect(ammAddress, signerOrProvider)
 }
 
 export const fetchAllAMMs = async (
   signerOrProvider: Signer | Provider,
-  network: Network
+  network: Network,
+  cache?: Cache
 ) => {
   const ammRegistry = getAMMRegistryContract(signerOrProvider, network)
   const vaults = await fetchAllFutureVaults(signerOrProvider, network)
 
   const ammAddresses = await Promise.all(
-    vaults.map((vault) => ammRegistry.getFutureAMMPool(vault.address))
+    vaults.map((vault) =>
+      withCache(cache, vault.address, 'ammAddress', () =>
+        ammRegistry.getFutureAMMPool(vault.address)
+      )
+    )
   )
 
   return Promise.all(
@@ -161,24 +332,31 @@ export const withdraw = async (
   network: Network,
   future: FutureVault,
   amount: BigNumberish,
-  controller?: Controller | null
+  controller?: Controller | null,
+  options: Options = {}
 ): Promise<SDKFunctionReturnType<Transaction>> => {
   if (!signer) {
     return error('NoSigner')
   }
 
-  const _controller =
+  const _controller = (
     controller ?? (await getControllerContract(signer, network))
-  const transaction = await _controller.withdraw(future.address, amount)
+  ).connect(signer)
 
-  return { transaction }
+  return sendTransaction(
+    _controller,
+    'withdraw',
+    [future.address, amount],
+    options
+  )
 }
 
 export const approve = async (
   signer: Signer,
   spender: string,
   tokenAddress: string,
-  amount: BigNumberish
+  amount: BigNumberish,
+  options: Options = {}
 ): Promise<SDKFunctionReturnType<Transaction>> => {
   if (!signer) {
     return error('NoSigner')
@@ -186,7 +364,7 @@ export const approve = async (
 
   const account = await signer.getAddress()
 
-  const needsApproval = isApprovalNecessary(
+  const needsApproval = await isApprovalNecessary(
     signer,
     account,
     spender,
@@ -198,12 +376,49 @@ export const approve = async (
     return { transaction: undefined }
   }
 
+  // With a permit relay, the owner only signs the approval.
+  if (
+    options.relayPermit &&
+    !isDryRun(options) &&
+    (await isPermitSupported(signer, tokenAddress))
+  ) {
+    const signature = await signPermit(signer, tokenAddress, spender, amount)
+
+    if (!isError(signature)) {
+      return options.relayPermit(signature)
+    }
+
+    // Only tokens without permits fall back to an approval, a rejected signature is not overridden.
+    if (signature.error.code !== 'PermitNotSupported') {
+      return signature
+    }
+  }
+
   const token = getTokenContract(signer, tokenAddress)
-  const transaction = await token.approve(spender, amount)
 
-  return { transaction }
+  return sendTransaction(token, 'approve', [spender, amount], options)
 }
 
+/**
+ * Approve a spender if the allowance is too low, and wait for the approval to be mined.
+ * @param signer - The signer of the token owner.
+ * @param spender - The contract/entity to approve.
+ * @param tokenAddress - The address of the token contract.
+ * @param amount - The amount to be approved.
+ * @param options
+ * @returns - an SDK returnType which contains the mined approval, if one was needed, and/or an error.
+ */
+export const approveAndWait = async (
+  signer: Signer,
+  spender: string,
+  tokenAddress: string,
+  amount: BigNumberish,
+  options: Options = {}
+) =>
+  waitForTransaction(
+    await approve(signer, spender, tokenAddress, amount, options)
+  )
+
 export const fetchAllowance = async (
   signerOrProvider: Signer | Provider,
   network: Network,
@@ -223,7 +438,8 @@ export const updateAllowance = async (
   signer: Signer,
   spender: string,
   tokenAddress: string,
-  amount: BigNumberish
+  amount: BigNumberish,
+  options: Options = {}
 ): Promise<SDKFunctionReturnType<Transaction>> => {
   if (!signer) {
     return error('NoSigner')
@@ -232,13 +448,19 @@ export const updateAllowance = async (
   const token = getTokenContract(signer, tokenAddress)
   const bignumberAmount = BigNumber.from(amount)
 
-  const transaction = await (bignumberAmount.isNegative()
-    ? token.decreaseAllowance(spender, bignumberAmount)
-    : token.increaseAllowance(spender, bignumberAmount.abs()))
-
-  return {
-    transaction
-  }
+  return bignumberAmount.isNegative()
+    ? sendTransaction(
+      token,
+      'decreaseAllowance',
+      [spender, bignumberAmount],
+      options
+    )
+    : sendTransaction(
+      token,
+      'increaseAllowance',
+      [spender, bignumberAmount.abs()],
+      options
+    )
 }
 
 export const deposit = async (
@@ -246,18 +468,23 @@ export const deposit = async (
   network: Network,
   future: FutureVault,
   amount: BigNumberish,
-  controller?: Controller | null
+  controller?: Controller | null,
+  options: Options = {}
 ): Promise<SDKFunctionReturnType<Transaction>> => {
   if (!signer) {
     return error('NoSigner')
   }
 
-  const _controller =
+  const _controller = (
     controller ?? (await getControllerContract(signer, network))
+  ).connect(signer)
 
-  const transaction = await _controller.deposit(future.address, amount)
-
-  return { transaction }
+  return sendTransaction(
+    _controller,
+    'deposit',
+    [future.address, amount],
+    options
+  )
 }
 
 export const isApprovalNecessary = async (
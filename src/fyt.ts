@@ -1,11 +1,192 @@
-import { FutureYieldToken__factory } from '@apwine/protocol'
+import { FutureVault, FutureYieldToken__factory } from '@apwine/protocol'
 import { Provider } from '@ethersproject/providers'
-import { Signer } from 'ethers'
-import { Network } from './types'
+import { BigNumber, BigNumberish, ethers, Signer } from 'ethers'
+import range from 'ramda/src/range'
+import {
+  ClaimableFYT,
+  FYTToken,
+  Network,
+  Options,
+  SDKFunctionReturnType,
+  Transaction
+} from './types'
 import { fetchAllFutureVaults } from './futures'
+import { error, getAddress } from './utils/general'
+import { sendTransaction } from './utils/transactions'
 
-export const fetchFYTTokens = async (signerOrProvider: Signer | Provider, network: Network) => {
+/**
+ * Fetch the FYTs of every period of a future, the current one included.
+ * @param signerOrProvider
+ * @param future - The target future vault.
+ * @returns - A collection of FYTTokens, ordered by period index.
+ */
+export const fetchFYTTokensOfFuture = async (
+  signerOrProvider: Signer | Provider,
+  future: FutureVault
+): Promise<FYTToken[]> => {
+  const currentPeriodIndex = (await future.getCurrentPeriodIndex()).toNumber()
+
+  const fytTokens = await Promise.all(
+    range(0, currentPeriodIndex + 1).map(async (periodIndex) => {
+      const address = await fetchFYTAddressOfPeriod(future, periodIndex)
+
+      if (address === ethers.constants.AddressZero) {
+        return null
+      }
+
+      const token = FutureYieldToken__factory.connect(address, signerOrProvider)
+      const [symbol, decimals, totalSupply] = await Promise.all([
+        token.symbol(),
+        token.decimals(),
+        token.totalSupply()
+      ])
+
+      return {
+        vault: future,
+        periodIndex,
+        isCurrent: periodIndex === currentPeriodIndex,
+        address,
+        token,
+        symbol,
+        decimals,
+        totalSupply
+      }
+    })
+  )
+
+  return fytTokens.filter((fyt): fyt is FYTToken => !!fyt)
+}
+
+/**
+ * Fetch the FYTs of every period of every future.
+ * @param signerOrProvider
+ * @param network - The network of the futures.
+ * @returns - A collection of FYTTokens.
+ */
+export const fetchFYTTokens = async (
+  signerOrProvider: Signer | Provider,
+  network: Network
+) => {
   const vaults = await fetchAllFutureVaults(signerOrProvider, network)
+  const fytTokens = await Promise.all(
+    vaults.map((vault) => fetchFYTTokensOfFuture(signerOrProvider, vault))
+  )
+
+  return fytTokens.flat()
+}
+
+/**
+ * Fetch the FYT address of a period of a future.
+ * @param future - The target future vault.
+ * @param periodIndex - The index of the period.
+ * @returns - The address of the FYT of that period.
+ */
+export const fetchFYTAddressOfPeriod = async (
+  future: FutureVault,
+  periodIndex: BigNumberish
+) => getAddress(await future.getFYTofPeriod(periodIndex))
+
+/**
+ * Fetch the FYT amount an account can claim on a future.
+ * @param future - The target future vault.
+ * @param account - The account claiming the FYTs.
+ * @param periodIndex - The index of the period. Default is the current period.
+ * @returns - ClaimableFYT
+ */
+export const fetchClaimableFYT = async (
+  future: FutureVault,
+  account: string,
+  periodIndex?: BigNumberish
+): Promise<ClaimableFYT> => {
+  const targetPeriodIndex = BigNumber.from(
+    periodIndex ?? (await future.getCurrentPeriodIndex())
+  )
+
+  const [fytAddress, amount] = await Promise.all([
+    fetchFYTAddressOfPeriod(future, targetPeriodIndex),
+    future.getClaimableFYTForPeriod(account, targetPeriodIndex)
+  ])
+
+  return {
+    future,
+    periodIndex: targetPeriodIndex,
+    fytAddress,
+    amount
+  }
+}
+
+/**
+ * Fetch the FYT amounts an account can claim on every future, for the current periods.
+ * @param signerOrProvider
+ * @param network - The network of the futures.
+ * @param account - The account claiming the FYTs.
+ * @returns - A collection of ClaimableFYT, one for each future.
+ */
+export const fetchAllClaimableFYT = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  account: string
+) => {
+  const vaults = await fetchAllFutureVaults(signerOrProvider, network)
+
+  return Promise.all(vaults.map((vault) => fetchClaimableFYT(vault, account)))
+}
+
+/**
+ * Claim the FYTs of the current period of a future.
+ * @param signer - The signer of the account claiming the FYTs.
+ * @param future - The target future vault.
+ * @param amount - The amount to be claimed. Default is the whole claimable amount.
+ * @param options
+ * @returns - an SDK returnType which contains a transaction and/or an error.
+ */
+export const claimFYT = async (
+  signer: Signer,
+  future: FutureVault,
+  amount?: BigNumberish,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>> => {
+  if (!signer) {
+    return error('NoSigner')
+  }
+
+  const user = await signer.getAddress()
+  const claimAmount = amount ?? (await fetchClaimableFYT(future, user)).amount
+
+  return sendTransaction(
+    future.connect(signer),
+    'claimFYT',
+    [user, claimAmount],
+    options
+  )
+}
+
+/**
+ * Claim the FYTs of the current period on every future, where there is something to claim.
+ * The claims are sent one after the other.
+ * @param signer - The signer of the account claiming the FYTs.
+ * @param network - The network of the futures.
+ * @param options
+ * @returns - A collection of SDK returnTypes, one for each claim.
+ */
+export const claimAllFYT = async (
+  signer: Signer,
+  network: Network,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>[]> => {
+  if (!signer) {
+    return [error('NoSigner')]
+  }
+
+  const user = await signer.getAddress()
+  const claimables = await fetchAllClaimableFYT(signer, network, user)
+  const results: SDKFunctionReturnType<Transaction>[] = []
+
+  for (const { future, amount } of claimables) {
+    if (!amount.isZero()) {
+      results.push(await claimFYT(signer, future, amount, options))
+    }
+  }
 
-  return Promise.all(vaults.map((v) => FutureYieldToken__factory.connect(v.address, signerOrProvider)))
+  return results
 }
@@ -0,0 +1,234 @@
+import { FutureVault, FutureYieldToken__factory } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { ethers, Signer } from 'ethers'
+import range from 'ramda/src/range'
+import { POOLS } from './constants'
+import { fetchAllFutureVaults, fetchAMM } from './futures'
+import { fetchFYTAddressOfPeriod } from './fyt'
+import { HistoryQuery, HistoryRecord, Network, PairId } from './types'
+import { getAddress, queryPaginated } from './utils/general'
+
+type LogMetadata = {
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+}
+
+const toRecordBase = (
+  { blockNumber, transactionHash, logIndex }: LogMetadata,
+  user: string,
+  future: string
+) => ({
+  user: getAddress(user),
+  future,
+  blockNumber,
+  transactionHash,
+  logIndex
+})
+
+/**
+ * Sort history records chronologically.
+ * @param records - a collection of HistoryRecords.
+ * @returns - the records, ordered by block and log index.
+ */
+export const sortHistory = (records: HistoryRecord[]) =>
+  [...records].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+  )
+
+/**
+ * Fetch the history of a future: deposits, withdrawals, swaps, liquidity changes and FYT claims.
+ * The events are not indexed by account, so the block range should start close to the first interaction of the account.
+ * Each type of event is queried in parallel, one page of blocks after the other.
+ * FYTs are minted during their period, so claims are only queried on the FYTs of the periods of the block range.
+ * @param signerOrProvider
+ * @param network - The network of the future.
+ * @param future - The target future vault.
+ * @param query - The account to filter on (default is every account), and the block range, up to the latest block by default.
+ * @returns - A collection of HistoryRecords, ordered by block and log index.
+ */
+export const fetchFutureHistory = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  future: FutureVault,
+  query: HistoryQuery
+): Promise<HistoryRecord[]> => {
+  const { account, fromBlock, pageSize } = query
+  const provider = Signer.isSigner(signerOrProvider)
+    ? signerOrProvider.provider!
+    : signerOrProvider
+  const latestBlock = await provider.getBlockNumber()
+  const toBlock = query.toBlock ?? latestBlock
+  const user = account && getAddress(account)
+  const isUser = (address: string) => !user || getAddress(address) === user
+
+  const [amm, currentPeriodIndex, periodSwitches] = await Promise.all([
+    fetchAMM(signerOrProvider, network, future),
+    future.getCurrentPeriodIndex(),
+    // The switches after the range give the periods of the range.
+    queryPaginated(
+      (from, to) =>
+        future.queryFilter(future.filters.NewPeriodStarted(null), from, to),
+      fromBlock,
+      latestBlock,
+      pageSize
+    )
+  ])
+
+  const paginate = <T>(
+    queryPage: (fromBlock: number, toBlock: number) => Promise<T[]>
+  ) => queryPaginated(queryPage, fromBlock, toBlock, pageSize)
+
+  // Claimed FYTs are minted to the user, on the FYT of the current period.
+  const firstPeriodIndex = currentPeriodIndex.toNumber() - periodSwitches.length
+  const lastPeriodIndex =
+    currentPeriodIndex.toNumber() -
+    periodSwitches.filter(({ blockNumber }) => blockNumber > toBlock).length
+  const fytAddresses = (
+    await Promise.all(
+      range(Math.max(firstPeriodIndex, 0), lastPeriodIndex + 1).map(
+        (periodIndex) => fetchFYTAddressOfPeriod(future, periodIndex)
+      )
+    )
+  ).filter((address) => address !== ethers.constants.AddressZero)
+
+  const [deposits, withdrawals, swaps, joins, exits, mints] = await Promise.all(
+    [
+      paginate((from, to) =>
+        future.queryFilter(future.filters.FundsDeposited(null, null), from, to)
+      ),
+      paginate((from, to) =>
+        future.queryFilter(future.filters.FundsWithdrawn(null, null), from, to)
+      ),
+      paginate((from, to) =>
+        amm.queryFilter(
+          amm.filters.Swapped(null, null, null, null, null, null, null),
+          from,
+          to
+        )
+      ),
+      paginate((from, to) =>
+        amm.queryFilter(amm.filters.PoolJoined(null, null, null), from, to)
+      ),
+      paginate((from, to) =>
+        amm.queryFilter(amm.filters.PoolExited(null, null, null), from, to)
+      ),
+      Promise.all(
+        fytAddresses.map((fytAddress) => {
+          const fyt = FutureYieldToken__factory.connect(
+            fytAddress,
+            signerOrProvider
+          )
+
+          return paginate((from, to) =>
+            fyt.queryFilter(
+              fyt.filters.Transfer(
+                ethers.constants.AddressZero,
+                user || null,
+                null
+              ),
+              from,
+              to
+            )
+          )
+        })
+      )
+    ]
+  )
+  const claims = mints.flatMap((events, i) =>
+    events.map((event) => ({ fytAddress: fytAddresses[i], event }))
+  )
+
+  const records: HistoryRecord[] = [
+    ...deposits
+      .filter(({ args }) => isUser(args._user))
+      .map((event) => ({
+        ...toRecordBase(event, event.args._user, future.address),
+        type: 'Deposit' as const,
+        amount: event.args._amount
+      })),
+    ...withdrawals
+      .filter(({ args }) => isUser(args._user))
+      .map((event) => ({
+        ...toRecordBase(event, event.args._user, future.address),
+        type: 'Withdraw' as const,
+        amount: event.args._amount
+      })),
+    // Swaps through the router are sent by the router, to the user.
+    ...swaps
+      .filter(({ args }) => isUser(args._to) || isUser(args._user))
+      .map((event) => {
+        const pairId = event.args._pairID.toNumber() as PairId
+        const swapUser = isUser(event.args._to)
+          ? event.args._to
+          : event.args._user
+
+        return {
+          ...toRecordBase(event, swapUser, future.address),
+          type: 'Swap' as const,
+          amm: amm.address,
+          pairId,
+          tokenIn: POOLS[pairId][event.args._tokenInID.toNumber()],
+          tokenOut: POOLS[pairId][event.args._tokenOutID.toNumber()],
+          amountIn: event.args._tokenAmountIn,
+          amountOut: event.args._tokenAmountOut
+        }
+      }),
+    ...[
+      ...joins.map((event) => ({ event, type: 'AddLiquidity' as const })),
+      ...exits.map((event) => ({ event, type: 'RemoveLiquidity' as const }))
+    ]
+      .filter(({ event }) => isUser(event.args._user))
+      .map(({ event, type }) => ({
+        ...toRecordBase(event, event.args._user, future.address),
+        type,
+        amm: amm.address,
+        pairId: event.args._pairID.toNumber() as PairId,
+        lpAmount: event.args._poolTokenAmount
+      })),
+    ...claims.map(({ fytAddress, event }) => ({
+      ...toRecordBase(event, event.args.to, future.address),
+      type: 'ClaimFYT' as const,
+      fytAddress,
+      amount: event.args.value
+    }))
+  ]
+
+  return sortHistory(records)
+}
+
+/**
+ * Fetch the history of an account on every future.
+ * The futures are queried in parallel, on the same block range.
+ * @param signerOrProvider
+ * @param network - The network of the futures.
+ * @param account - The target account.
+ * @param query - The block range, up to the latest block by default.
+ * @returns - A collection of HistoryRecords, ordered by block and log index.
+ */
+export const fetchUserHistory = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  account: string,
+  query: Omit<HistoryQuery, 'account'>
+) => {
+  const provider = Signer.isSigner(signerOrProvider)
+    ? signerOrProvider.provider!
+    : signerOrProvider
+  const [vaults, toBlock] = await Promise.all([
+    fetchAllFutureVaults(signerOrProvider, network),
+    query.toBlock ?? provider.getBlockNumber()
+  ])
+
+  const records = await Promise.all(
+    vaults.map((vault) =>
+      fetchFutureHistory(signerOrProvider, network, vault, {
+        ...query,
+        toBlock,
+        account
+      })
+    )
+  )
+
+  return sortHistory(records.flat())
+}
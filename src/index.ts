@@ -1 +1,23 @@
 export { default } from './sdk'
+export * from './errors'
+export {
+  formatTokenAmount,
+  parseTokenAmount,
+  toTokenAmount
+} from './utils/tokens'
+export { createCache, createMemoryCacheAdapter, scopeCache } from './cache'
+export {
+  calcInGivenOut,
+  calcOutGivenIn,
+  calcSpotPrice,
+  calcSwapFee,
+  calcTokensInGivenLPOut,
+  calcTokensOutGivenLPIn,
+  quoteSwapFromPools
+} from './utils/math'
+export {
+  checkNetwork,
+  getRegisteredNetworks,
+  isNetworkSupported,
+  registerNetwork
+} from './utils/general'
@@ -6,10 +6,14 @@ import range from 'ramda/src/range'
 import xprod from 'ramda/src/xprod'
 
 import { PAIR_IDS } from './constants'
-import { PairId, Transaction, Options, SDKFunctionReturnType, TransactionParams, RemoveLiquidityParams, AddLiquidityParams } from './types'
-import { isApprovalNecessary } from './futures'
-import { getPoolTokens } from './utils/swap'
-import { error } from './utils/general'
+import { PairId, Transaction, Options, SDKFunctionReturnType, TransactionParams, RemoveLiquidityParams, AddLiquidityParams, Network, PoolState, QueryParams, WithNetwork, AddLiquidityQuote, RemoveLiquidityQuote, Error, WithCache, Cache } from './types'
+import { getFutureVaultContract } from './contracts'
+import { approveAndWait, fetchAllAMMs } from './futures'
+import { fetchUnderlyingPrice } from './swap'
+import { applySlippage, getPoolTokens, isValidSlippage, toUnderlying } from './utils/swap'
+import { error, isError } from './utils/general'
+import { calcTokensInGivenLPOut, calcTokensOutGivenLPIn } from './utils/math'
+import { isDryRun, sendTransaction, waitForTransaction } from './utils/transactions'
 
 export const getLPTokenContract = (
   signerOrProvider: Signer | Provider,
@@ -26,7 +30,7 @@ export const isLPApprovedForAll = async (signerOrProvider: Signer | Provider, am
   return lp.isApprovedForAll(account, amm.address)
 }
 
-export const approveLPForAll = async (signer: Signer, amm: AMM, approved:boolean): Promise<SDKFunctionReturnType<Transaction>> => {
+export const approveLPForAll = async (signer: Signer, amm: AMM, approved:boolean, options: Options = {}): Promise<SDKFunctionReturnType<Transaction>> => {
   if (!signer) {
     return error('NoSigner')
   }
@@ -34,65 +38,150 @@ export const approveLPForAll = async (signer: Signer, amm: AMM, approved:boolean
   const lpAddress = await amm.getPoolTokenAddress()
 
   const token = getLPTokenContract(signer, lpAddress)
-  const transaction = await token.setApprovalForAll(amm.address, approved)
+
+  return sendTransaction(token, 'setApprovalForAll', [amm.address, approved], options)
+}
+
+export type AddLiquidityParamsFull = AddLiquidityParams & TransactionParams & WithNetwork & WithCache
+export type RemoveLiquidityParamsFull = RemoveLiquidityParams & TransactionParams & WithNetwork
+export type LiquidityQuoteParams = Pick<AddLiquidityParams, 'amm' | 'pairId' | 'amount' | 'slippageTolerance'> & QueryParams & WithNetwork
+
+/**
+ * Quote a liquidity deposit, from the current reserves of the pool.
+ * @param params - LiquidityQuoteParams, where amount is the amount of LP tokens to mint.
+ * @returns - the token amounts required on each side, bounded by the slippage tolerance, or an error.
+ */
+export const quoteAddLiquidity = async (params: LiquidityQuoteParams): Promise<AddLiquidityQuote | Error> => {
+  const { signerOrProvider, network, amm, pairId, amount, slippageTolerance } = params
+
+  if (!isValidSlippage(slippageTolerance)) {
+    return error('FaultySlippage')
+  }
+
+  const { reserves, lpTotalSupply, tvl } = await fetchPoolState(signerOrProvider, network, amm, pairId)
+
+  if (lpTotalSupply.isZero()) {
+    return error('UninitializedPool')
+  }
+
+  const lpAmountOut = BigNumber.from(amount)
+  const amountsIn = calcTokensInGivenLPOut(reserves, lpTotalSupply, lpAmountOut)
+
+  return {
+    amm,
+    pairId,
+    lpAmountOut,
+    amountsIn,
+    maxAmountsIn: amountsIn.map((amountIn) => applySlippage(amountIn, slippageTolerance)) as [BigNumber, BigNumber],
+    underlyingValue: tvl.mul(lpAmountOut).div(lpTotalSupply),
+    slippageTolerance
+  }
+}
+
+/**
+ * Quote a liquidity withdrawal, from the current reserves of the pool.
+ * @param params - LiquidityQuoteParams, where amount is the amount of LP tokens to burn.
+ * @returns - the token amounts received on each side, bounded by the slippage tolerance, or an error.
+ */
+export const quoteRemoveLiquidity = async (params: LiquidityQuoteParams): Promise<RemoveLiquidityQuote | Error> => {
+  const { signerOrProvider, network, amm, pairId, amount, slippageTolerance } = params
+
+  if (!isValidSlippage(slippageTolerance)) {
+    return error('FaultySlippage')
+  }
+
+  const { reserves, lpTotalSupply, tvl } = await fetchPoolState(signerOrProvider, network, amm, pairId)
+
+  if (lpTotalSupply.isZero()) {
+    return error('UninitializedPool')
+  }
+
+  const lpAmountIn = BigNumber.from(amount)
+  const amountsOut = calcTokensOutGivenLPIn(reserves, lpTotalSupply, lpAmountIn)
 
   return {
-    transaction
+    amm,
+    pairId,
+    lpAmountIn,
+    amountsOut,
+    minAmountsOut: amountsOut.map((amountOut) => applySlippage(amountOut, -slippageTolerance)) as [BigNumber, BigNumber],
+    underlyingValue: tvl.mul(lpAmountIn).div(lpTotalSupply),
+    slippageTolerance
   }
 }
 
-export const addLiquidity = async (params: AddLiquidityParams & TransactionParams, options: Options = {}): Promise<SDKFunctionReturnType<Transaction>> => {
-  const { signer, amm, pairId, amount, maxAmountsIn, account } = params
+export const addLiquidity = async (params: AddLiquidityParamsFull, options: Options = {}): Promise<SDKFunctionReturnType<Transaction>> => {
+  const { signer, network, amm, pairId, amount, slippageTolerance, maxAmountsIn } = params
 
   if (!signer) {
     return error('NoSigner')
   }
 
-  const defaultMaxAmountsIn: [BigNumberish, BigNumberish] = [ethers.constants.MaxInt256, ethers.constants.MaxInt256]
-  const [token1, token2] = await getPoolTokens(signer, amm, pairId)
-  const user = account ?? await signer.getAddress()
-
-  if (options.autoApprove) {
-    const [maxAmountT1, maxAmountT2] = maxAmountsIn ?? defaultMaxAmountsIn
+  let amountsIn: [BigNumberish, BigNumberish]
 
-    const needsApprovalForT1 = await isApprovalNecessary(signer, user, amm.address, token1.address, maxAmountT1)
-    const needsApprovalForT2 = await isApprovalNecessary(signer, user, amm.address, token2.address, maxAmountT2)
+  if (maxAmountsIn) {
+    amountsIn = maxAmountsIn
+  } else {
+    const quote = await quoteAddLiquidity({ signerOrProvider: signer, network, amm, pairId, amount, slippageTolerance })
 
-    if (needsApprovalForT1) {
-      await token1.approve(amm.address, maxAmountT1)
+    if (isError(quote)) {
+      return quote
     }
 
-    if (needsApprovalForT2) {
-      await token2.approve(amm.address, maxAmountT2)
-    }
+    amountsIn = quote.maxAmountsIn
   }
 
-  const transaction = await amm.addLiquidity(pairId, amount, maxAmountsIn ?? defaultMaxAmountsIn)
+  const [token1, token2] = await getPoolTokens(signer, amm, pairId, params.cache)
+
+  if (options.autoApprove && !isDryRun(options)) {
+    for (const [token, maxAmount] of [[token1, amountsIn[0]], [token2, amountsIn[1]]] as const) {
+      const approval = await approveAndWait(signer, amm.address, token.address, maxAmount, { relayPermit: options.relayPermit })
+
+      if (isError(approval)) {
+        return approval
+      }
+    }
+  }
 
-  return { transaction }
+  return sendTransaction(amm.connect(signer), 'addLiquidity', [pairId, amount, amountsIn], options)
 }
 
-export const removeLiquidity = async (params: RemoveLiquidityParams & TransactionParams, options: Options = {}): Promise<SDKFunctionReturnType<Transaction>> => {
-  const { signer, amm, pairId, amount, minAmountsOut, account } = params
+export const removeLiquidity = async (params: RemoveLiquidityParamsFull, options: Options = {}): Promise<SDKFunctionReturnType<Transaction>> => {
+  const { signer, network, amm, pairId, amount, slippageTolerance, minAmountsOut, account } = params
 
   if (!signer) {
     return error('NoSigner')
   }
 
-  const defaultMinAmountsOut: [BigNumberish, BigNumberish] = [BigNumber.from('0'), BigNumber.from('0')]
+  let amountsOut: [BigNumberish, BigNumberish]
+
+  if (minAmountsOut) {
+    amountsOut = minAmountsOut
+  } else {
+    const quote = await quoteRemoveLiquidity({ signerOrProvider: signer, network, amm, pairId, amount, slippageTolerance })
+
+    if (isError(quote)) {
+      return quote
+    }
+
+    amountsOut = quote.minAmountsOut
+  }
+
   const user = account ?? await signer.getAddress()
 
-  if (options.autoApprove) {
+  if (options.autoApprove && !isDryRun(options)) {
     const isApproved = await isLPApprovedForAll(signer, amm, user)
 
     if (!isApproved) {
-      await approveLPForAll(signer, amm, true)
+      const approval = await waitForTransaction(await approveLPForAll(signer, amm, true))
+
+      if (isError(approval)) {
+        return approval
+      }
     }
   }
 
-  const transaction = await amm.removeLiquidity(pairId, amount, minAmountsOut ?? defaultMinAmountsOut, { from: user })
-
-  return { transaction }
+  return sendTransaction(amm.connect(signer), 'removeLiquidity', [pairId, amount, amountsOut, { from: user }], options)
 }
 
 export const fetchLPTokenPool = async (
@@ -131,3 +220,72 @@ export const fetchAllLPTokenPools = async (
     )
   )
 }
+
+/**
+ * Fetch the state of a pool of an AMM, for the current period.
+ * @param signerOrProvider
+ * @param network - The network of the AMM.
+ * @param amm - The target AMM.
+ * @param pairId - The pair id of the token pair, 0 or 1.
+ * @returns - The reserves, weights, swap fee, LP supply and TVL of the pool.
+ */
+export const fetchPoolState = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  amm: AMM,
+  pairId: PairId
+): Promise<PoolState> => {
+  const periodIndex = await amm.currentPeriodIndex()
+  const [{ id }, pair, ptAddress, swapFee, futureAddress] = await Promise.all([
+    fetchLPTokenPool(signerOrProvider, amm, pairId, periodIndex),
+    amm.getPairWithID(pairId),
+    amm.getPTAddress(),
+    amm.swapFee(),
+    amm.getFutureAddress()
+  ])
+
+  const future = getFutureVaultContract(signerOrProvider, futureAddress)
+  const [lpTotalSupply, ptPrice, otherPrice] = await Promise.all([
+    amm.getTotalSupplyWithTokenId(id),
+    fetchUnderlyingPrice(signerOrProvider, network, future, 'PT'),
+    pairId === 0
+      ? ethers.constants.WeiPerEther
+      : fetchUnderlyingPrice(signerOrProvider, network, future, 'FYT')
+  ])
+
+  const [ptReserve, otherReserve] = pair.balances
+
+  return {
+    amm,
+    pairId,
+    periodIndex,
+    lpTokenId: id,
+    tokenAddresses: [ptAddress, pair.tokenAddress],
+    reserves: pair.balances,
+    weights: pair.weights,
+    swapFee,
+    lpTotalSupply,
+    tvl: toUnderlying(ptReserve, ptPrice).add(toUnderlying(otherReserve, otherPrice))
+  }
+}
+
+/**
+ * Fetch the state of both pools of every AMM, for the current periods.
+ * @param signerOrProvider - Use a MulticallProvider, to batch the queries.
+ * @param network - The network of the AMMs.
+ * @param cache - Caches the AMM addresses of the vaults.
+ * @returns - A collection of PoolStates, two for each AMM.
+ */
+export const fetchAllPoolStates = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  cache?: Cache
+) => {
+  const amms = await fetchAllAMMs(signerOrProvider, network, cache)
+
+  return Promise.all(
+    xprod(amms, [...PAIR_IDS]).map(([amm, pairId]) =>
+      fetchPoolState(signerOrProvider, network, amm, pairId)
+    )
+  )
+}
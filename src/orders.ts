@@ -0,0 +1,175 @@
+import { Controller, FutureVault } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, Signer } from 'ethers'
+import { getFutureVaultContract } from './contracts'
+import { fetchFutureRates } from './rates'
+import { subscribe } from './subscriptions'
+import { executeSwap, fetchSpotPrice, quoteSwap } from './swap'
+import {
+  ConditionalOrder,
+  Error,
+  Network,
+  OrderCondition,
+  OrderUpdate,
+  Subscription,
+  WatchOrderOptions
+} from './types'
+import { error, isError } from './utils/general'
+import { isDryRun } from './utils/transactions'
+
+/**
+ * Check whether an observed value is within the bounds of a condition.
+ * @param condition - OrderCondition, with an upper and/or a lower bound.
+ * @param value - the spot price, or the fixed APY.
+ * @returns - true if every bound of the condition is met.
+ */
+export const isConditionMet = (
+  condition: OrderCondition,
+  value: BigNumber | number
+) => {
+  if (condition.type === 'spotPrice') {
+    const price = BigNumber.from(value)
+
+    return (
+      (condition.below === undefined || price.lte(condition.below)) &&
+      (condition.above === undefined || price.gte(condition.above))
+    )
+  }
+
+  const apy = Number(value)
+
+  return (
+    (condition.below === undefined || apy <= condition.below) &&
+    (condition.above === undefined || apy >= condition.above)
+  )
+}
+
+const isSameUpdate = (previous: OrderUpdate, next: OrderUpdate) =>
+  previous.status === next.status &&
+  (BigNumber.isBigNumber(previous.value)
+    ? previous.value.eq(next.value ?? 0)
+    : previous.value === next.value)
+
+/**
+ * Watch a conditional order on new blocks, and execute its swap once its condition is met.
+ * The swap is only executed if its price impact is below the max slippage, which also bounds the amount in or out.
+ * Cancel the order with the unsubscribe handle.
+ * @param signer - The signer executing the swap, or a VoidSigner to only build the transaction with options.populate.
+ * @param provider - The provider emitting the blocks.
+ * @param network - The network of the AMM.
+ * @param order - ConditionalOrder: the swap, its condition, its max slippage and its expiry.
+ * @param listener - Called with the observed value while Pending, then once the order is Executed, Ready, Expired or Failed.
+ * @param options - The transaction options of the swap, the debounce delay, and an error callback for failed fetches.
+ * @param controller - The Controller instance, fetched if needed and not passed.
+ * @returns - a Subscription, with its unsubscribe handle.
+ */
+export const watchOrder = (
+  signer: Signer,
+  provider: Provider,
+  network: Network,
+  order: ConditionalOrder,
+  listener: (update: OrderUpdate) => void,
+  options: WatchOrderOptions = {},
+  controller?: Controller | null
+): Subscription => {
+  if (!signer) {
+    listener({ status: 'Failed', error: error('NoSigner').error })
+    return { unsubscribe: () => undefined }
+  }
+
+  const { debounce, onError, ...transactionOptions } = options
+  const { amm, from, to, swapType, amount, condition, maxSlippage, expiry } =
+    order
+  let future: FutureVault | undefined
+  let cancelled = false
+
+  const observe = async (): Promise<BigNumber | number | Error> => {
+    future =
+      future ??
+      getFutureVaultContract(provider, await amm.getFutureAddress())
+
+    if (condition.type === 'spotPrice') {
+      return fetchSpotPrice(provider, network, future, from, to)
+    }
+
+    const rates = await fetchFutureRates(provider, network, future, controller)
+
+    return isError(rates) ? rates : rates.fixedAPY
+  }
+
+  const evaluate = async (): Promise<OrderUpdate> => {
+    if (expiry && expiry.getTime() <= Date.now()) {
+      return { status: 'Expired' }
+    }
+
+    const value = await observe()
+
+    if (isError(value)) {
+      return { status: 'Failed', error: value.error }
+    }
+
+    if (!isConditionMet(condition, value)) {
+      return { status: 'Pending', value }
+    }
+
+    const quote = await quoteSwap(swapType, {
+      signerOrProvider: provider,
+      network,
+      amm,
+      from,
+      to,
+      amount,
+      slippageTolerance: maxSlippage
+    })
+
+    if (isError(quote)) {
+      return { status: 'Failed', value, error: quote.error }
+    }
+
+    if (quote.priceImpact > maxSlippage) {
+      return { status: 'Pending', value, quote }
+    }
+
+    // The order can be cancelled while it is quoted, the update then never reaches the listener.
+    if (cancelled) {
+      return { status: 'Pending', value, quote }
+    }
+
+    const result = await executeSwap(signer, network, quote, transactionOptions)
+
+    if (isError(result)) {
+      return { status: 'Failed', value, quote, error: result.error }
+    }
+
+    return {
+      status: isDryRun(transactionOptions) ? 'Ready' : 'Executed',
+      value,
+      quote,
+      ...result
+    }
+  }
+
+  const subscription = subscribe(
+    provider,
+    evaluate,
+    (update) => {
+      if (update.status !== 'Pending') {
+        subscription.unsubscribe()
+      }
+
+      listener(update)
+    },
+    {
+      debounce,
+      onError,
+      isEqual: isSameUpdate
+    }
+  )
+
+  return {
+    unsubscribe: () => {
+      cancelled = true
+      subscription.unsubscribe()
+    }
+  }
+}
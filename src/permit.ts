@@ -0,0 +1,190 @@
+import { TypedDataSigner } from '@ethersproject/abstract-signer'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, BigNumberish, Contract, ethers, Signer } from 'ethers'
+import { withCache } from './cache'
+import { HOUR } from './constants'
+import { decodeContractError } from './errors'
+import {
+  Cache,
+  Error,
+  Options,
+  PermitSignature,
+  SDKFunctionReturnType,
+  Transaction
+} from './types'
+import { error, getAddress } from './utils/general'
+import { sendTransaction } from './utils/transactions'
+
+/**
+ * The EIP-2612 interface, with the metadata of the EIP-712 domain.
+ */
+export const PERMIT_ABI = [
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function nonces(address owner) view returns (uint256)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function name() view returns (string)',
+  'function version() view returns (string)'
+]
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+}
+
+export const getPermitContract = (
+  signerOrProvider: Signer | Provider,
+  tokenAddress: string
+) => new Contract(tokenAddress, PERMIT_ABI, signerOrProvider)
+
+const isTypedDataSigner = (
+  signer: Signer
+): signer is Signer & TypedDataSigner =>
+  typeof (signer as Partial<TypedDataSigner>)._signTypedData === 'function'
+
+/**
+ * Whether a call reverted, e.g. because the token has no such getter.
+ */
+const isCallException = (e: unknown) =>
+  (e as { code?: string } | null)?.code === ethers.errors.CALL_EXCEPTION
+
+/**
+ * Detect whether a token supports EIP-2612 permits, from its nonces and DOMAIN_SEPARATOR getters.
+ * @param signerOrProvider
+ * @param tokenAddress - The address of the token contract.
+ * @param cache - The cache of the result, which never changes.
+ * @returns - a boolean value.
+ */
+export const isPermitSupported = async (
+  signerOrProvider: Signer | Provider,
+  tokenAddress: string,
+  cache?: Cache
+) => {
+  const token = getPermitContract(signerOrProvider, tokenAddress)
+
+  const supported = await withCache(
+    cache,
+    tokenAddress,
+    'permitSupported',
+    () =>
+      Promise.all([
+        token.nonces(ethers.constants.AddressZero),
+        token.DOMAIN_SEPARATOR()
+      ]).then(
+        () => 'true',
+        () => 'false'
+      )
+  )
+
+  return supported === 'true'
+}
+
+/**
+ * Sign an EIP-2612 permit, which anyone (e.g. a relayer) can submit to approve a spender.
+ * The EIP-712 domain is checked against the DOMAIN_SEPARATOR of the token, so that invalid signatures are never returned.
+ * @param signer - The signer of the token owner, able to sign typed data.
+ * @param tokenAddress - The address of the token contract.
+ * @param spender - The contract/entity to approve.
+ * @param value - The amount to be approved.
+ * @param deadline - The expiry of the permit. Default is in an hour.
+ * @returns - a PermitSignature, a PermitNotSupportedError if the token or the signer does not support permits, or a ContractError if the signature is rejected.
+ */
+export const signPermit = async (
+  signer: Signer,
+  tokenAddress: string,
+  spender: string,
+  value: BigNumberish,
+  deadline?: Date
+): Promise<PermitSignature | Error> => {
+  if (!signer) {
+    return error('NoSigner')
+  }
+
+  if (!isTypedDataSigner(signer)) {
+    return error('PermitNotSupported')
+  }
+
+  const token = getPermitContract(signer, tokenAddress)
+  const owner = await signer.getAddress()
+
+  try {
+    const [chainId, name, version, nonce, domainSeparator] = await Promise.all([
+      signer.getChainId(),
+      token.name(),
+      // Tokens without a version getter use the default version of OpenZeppelin's ERC20Permit.
+      token.version().catch(() => '1'),
+      token.nonces(owner),
+      token.DOMAIN_SEPARATOR()
+    ])
+
+    const domain = {
+      name,
+      version,
+      chainId,
+      verifyingContract: getAddress(tokenAddress)
+    }
+
+    if (ethers.utils._TypedDataEncoder.hashDomain(domain) !== domainSeparator) {
+      return error('PermitNotSupported')
+    }
+
+    const message = {
+      owner,
+      spender,
+      value: BigNumber.from(value),
+      nonce: BigNumber.from(nonce),
+      deadline: BigNumber.from(
+        Math.floor((deadline?.getTime() ?? Date.now() + HOUR * 1000) / 1000)
+      )
+    }
+
+    const signature = ethers.utils.splitSignature(
+      await signer._signTypedData(domain, PERMIT_TYPES, message)
+    )
+
+    return {
+      tokenAddress: getAddress(tokenAddress),
+      ...message,
+      v: signature.v,
+      r: signature.r,
+      s: signature.s
+    }
+  } catch (e) {
+    // Missing getters revert, other failures (e.g. a rejected signature) are returned as they are.
+    return error(
+      isCallException(e)
+        ? 'PermitNotSupported'
+        : decodeContractError(e, tokenAddress, 'permit')
+    )
+  }
+}
+
+/**
+ * Submit a signed permit. The sender does not have to be the token owner.
+ * @param signer - The signer sending the transaction, e.g. a relayer.
+ * @param signature - PermitSignature returned by signPermit.
+ * @param options
+ * @returns - an SDK returnType which contains a transaction and/or an error.
+ */
+export const submitPermit = async (
+  signer: Signer,
+  signature: PermitSignature,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>> => {
+  if (!signer) {
+    return error('NoSigner')
+  }
+
+  const { tokenAddress, owner, spender, value, deadline, v, r, s } = signature
+
+  return sendTransaction(
+    getPermitContract(signer, tokenAddress),
+    'permit',
+    [owner, spender, value, deadline, v, r, s],
+    options
+  )
+}
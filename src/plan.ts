@@ -0,0 +1,412 @@
+import { AMM } from '@apwine/amm'
+import { Controller, FutureVault } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, BigNumberish, Signer } from 'ethers'
+import { getControllerContract } from './contracts'
+import { approve, deposit } from './futures'
+import { claimFYT, fetchClaimableFYT } from './fyt'
+import {
+  addLiquidity,
+  approveLPForAll,
+  isLPApprovedForAll,
+  quoteAddLiquidity,
+  removeLiquidity
+} from './lp'
+import { executeSwap, fetchTokenAddress } from './swap'
+import {
+  AddLiquidityParams,
+  AddLiquidityQuote,
+  Error,
+  Network,
+  Options,
+  Plan,
+  PlanExecution,
+  PlanExecutionOptions,
+  PlanStep,
+  RemoveLiquidityParams,
+  SDKFunctionReturnType,
+  SwapQuote,
+  Transaction,
+  ZapQuote
+} from './types'
+import { decodeContractError } from './errors'
+import { error, getNetworkConfig, isError } from './utils/general'
+import { getDeadline, getPoolTokens } from './utils/swap'
+import { waitForTransaction } from './utils/transactions'
+
+/**
+ * The steps which only grant allowances, and can be left out when approvals are handled by the user.
+ */
+export const APPROVAL_STEP_TYPES: PlanStep['type'][] = ['Approval', 'LPApproval']
+
+/**
+ * Create a step approving a spender, which is skipped if the allowance is already high enough when it is executed.
+ * @param spender - The contract/entity to approve.
+ * @param tokenAddress - The address of the token contract.
+ * @param amount - The amount to be approved.
+ * @returns - a PlanStep
+ */
+export const approvalStep = (
+  spender: string,
+  tokenAddress: string,
+  amount: BigNumberish
+): PlanStep => ({
+  type: 'Approval',
+  description: `Approve ${spender} to spend ${BigNumber.from(
+    amount
+  ).toString()} of ${tokenAddress}`,
+  execute: (signer, options) =>
+    approve(signer, spender, tokenAddress, amount, options)
+})
+
+/**
+ * Create a step approving an AMM to transfer the LP tokens of the user, skipped if it already is.
+ * @param amm - The target AMM.
+ * @returns - a PlanStep
+ */
+export const lpApprovalStep = (amm: AMM): PlanStep => ({
+  type: 'LPApproval',
+  description: `Approve ${amm.address} to transfer LP tokens`,
+  execute: async (signer, options) => {
+    const isApproved = await isLPApprovedForAll(
+      signer,
+      amm,
+      await signer.getAddress()
+    )
+
+    return isApproved
+      ? { transaction: undefined }
+      : approveLPForAll(signer, amm, true, options)
+  }
+})
+
+/**
+ * Plan a swap quote: the approval of the router, then the swap.
+ * The deadline of the quote is replaced when the swap is sent, since the previous steps of a plan are mined first.
+ * @param network - The network of the AMM.
+ * @param quote - SwapQuote returned by quoteSwap.
+ * @param deadline - The deadline of the swap. Default is a minute after the swap is sent.
+ * @returns - a Plan
+ */
+export const planSwap = async (
+  network: Network,
+  quote: SwapQuote,
+  deadline?: Date
+): Promise<Plan | Error> => {
+  const tokenAddress = await fetchTokenAddress(quote.amm, quote.from)
+
+  if (!tokenAddress) {
+    return error('NoSuchToken')
+  }
+
+  return {
+    steps: [
+      approvalStep(
+        getNetworkConfig(network).AMM_ROUTER,
+        tokenAddress,
+        quote.amountIn
+      ),
+      {
+        type: 'Swap',
+        description: `Swap ${quote.amountIn.toString()} ${quote.from} for ${quote.amountOut.toString()} ${quote.to}`,
+        execute: (signer, options) =>
+          executeSwap(
+            signer,
+            network,
+            { ...quote, deadline: getDeadline(deadline) },
+            options
+          )
+      }
+    ]
+  }
+}
+
+/**
+ * Plan a deposit in a future: the approval of the Controller, then the deposit.
+ * @param signerOrProvider
+ * @param network - The network of the future.
+ * @param future - The target future vault.
+ * @param amount - The amount of IBT to deposit.
+ * @param controller - The Controller instance, fetched if not passed.
+ * @returns - a Plan
+ */
+export const planDeposit = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  future: FutureVault,
+  amount: BigNumberish,
+  controller?: Controller | null
+): Promise<Plan> => {
+  const _controller =
+    controller ?? (await getControllerContract(signerOrProvider, network))
+
+  return {
+    steps: [
+      approvalStep(_controller.address, await future.getIBTAddress(), amount),
+      {
+        type: 'Deposit',
+        description: `Deposit ${BigNumber.from(amount).toString()} IBT in ${
+          future.address
+        }`,
+        execute: (signer, options) =>
+          deposit(signer, network, future, amount, _controller, options)
+      }
+    ]
+  }
+}
+
+/**
+ * Plan the FYT claim of the current period of a future, skipped if there is nothing to claim.
+ * The claimable amount is fetched on execution, so the FYTs of a planned deposit must be passed: they can not be claimed yet in dry runs.
+ * @param future - The target future vault.
+ * @param amount - The amount of FYT to claim, e.g. the ptAmount of a planned deposit.
+ * @returns - a Plan
+ */
+export const planClaimFYT = (
+  future: FutureVault,
+  amount?: BigNumberish
+): Plan => ({
+  steps: [
+    {
+      type: 'ClaimFYT',
+      description: `Claim ${
+        amount === undefined ? 'the' : BigNumber.from(amount).toString()
+      } FYTs of ${future.address}`,
+      execute: async (signer, options) => {
+        const claimAmount =
+          amount ??
+          (await fetchClaimableFYT(future, await signer.getAddress())).amount
+
+        return BigNumber.from(claimAmount).isZero()
+          ? { transaction: undefined }
+          : claimFYT(signer, future, claimAmount, options)
+      }
+    }
+  ]
+})
+
+/**
+ * Plan a liquidity quote: the approvals of both pool tokens, then the deposit of liquidity.
+ */
+const planAddLiquidityQuote = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  quote: AddLiquidityQuote
+): Promise<Plan> => {
+  const { amm, pairId, lpAmountOut, maxAmountsIn, slippageTolerance } = quote
+  const tokens = await getPoolTokens(signerOrProvider, amm, pairId)
+
+  return {
+    steps: [
+      ...tokens.map((token, i) =>
+        approvalStep(amm.address, token.address, maxAmountsIn[i])
+      ),
+      {
+        type: 'AddLiquidity',
+        description: `Add ${lpAmountOut.toString()} LP tokens of pair ${pairId} to ${
+          amm.address
+        }`,
+        execute: (signer, options) =>
+          addLiquidity(
+            {
+              signer,
+              network,
+              amm,
+              pairId,
+              amount: lpAmountOut,
+              maxAmountsIn,
+              slippageTolerance
+            },
+            options
+          )
+      }
+    ]
+  }
+}
+
+/**
+ * Plan adding liquidity: the approvals of both pool tokens, then the deposit of liquidity.
+ * @param signerOrProvider
+ * @param network - The network of the AMM.
+ * @param params - AddLiquidityParams, maxAmountsIn is derived from the reserves if not passed.
+ * @returns - a Plan, or an error if the liquidity can not be quoted.
+ */
+export const planAddLiquidity = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  params: AddLiquidityParams
+): Promise<Plan | Error> => {
+  const quote = await quoteAddLiquidity({
+    signerOrProvider,
+    network,
+    ...params
+  })
+
+  if (isError(quote)) {
+    return quote
+  }
+
+  return planAddLiquidityQuote(signerOrProvider, network, {
+    ...quote,
+    maxAmountsIn: params.maxAmountsIn
+      ? (params.maxAmountsIn.map((amount) => BigNumber.from(amount)) as [
+          BigNumber,
+          BigNumber
+        ])
+      : quote.maxAmountsIn
+  })
+}
+
+/**
+ * Plan removing liquidity: the approval of the LP tokens, then the withdrawal of liquidity.
+ * @param network - The network of the AMM.
+ * @param params - RemoveLiquidityParams, minAmountsOut is derived from the reserves if not passed.
+ * @returns - a Plan
+ */
+export const planRemoveLiquidity = (
+  network: Network,
+  params: RemoveLiquidityParams
+): Plan => ({
+  steps: [
+    lpApprovalStep(params.amm),
+    {
+      type: 'RemoveLiquidity',
+      description: `Remove ${BigNumber.from(
+        params.amount
+      ).toString()} LP tokens of pair ${params.pairId} from ${
+        params.amm.address
+      }`,
+      execute: (signer, options) =>
+        removeLiquidity({ signer, network, ...params }, options)
+    }
+  ]
+})
+
+/**
+ * Plan every leg of a zap quote, with their approvals.
+ * @param signerOrProvider
+ * @param network - The network of the AMM.
+ * @param quote - ZapQuote returned by quoteZapIn or quoteZapOut.
+ * @param controller - The Controller instance, fetched if needed and not passed.
+ * @param deadline - The deadline of every swap. Default is a minute after each swap is sent.
+ * @returns - a Plan
+ */
+export const planZap = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  quote: ZapQuote,
+  controller?: Controller | null,
+  deadline?: Date
+): Promise<Plan | Error> => {
+  const steps: PlanStep[] = []
+
+  for (const leg of quote.legs) {
+    let plan: Plan | Error
+
+    switch (leg.type) {
+      case 'Deposit':
+        plan = await planDeposit(
+          signerOrProvider,
+          network,
+          leg.future,
+          leg.amount,
+          controller
+        )
+        break
+      case 'ClaimFYT':
+        plan = planClaimFYT(leg.future, leg.amount)
+        break
+      case 'Swap':
+        plan = await planSwap(network, leg.quote, deadline)
+        break
+      case 'AddLiquidity':
+        plan = await planAddLiquidityQuote(signerOrProvider, network, leg.quote)
+        break
+      case 'RemoveLiquidity':
+        plan = planRemoveLiquidity(network, {
+          amm: leg.quote.amm,
+          pairId: leg.quote.pairId,
+          amount: leg.quote.lpAmountIn,
+          minAmountsOut: leg.quote.minAmountsOut,
+          slippageTolerance: leg.quote.slippageTolerance
+        })
+        break
+    }
+
+    if (isError(plan)) {
+      return plan
+    }
+
+    steps.push(...plan.steps)
+  }
+
+  return { steps }
+}
+
+/**
+ * Execute the steps of a plan, one after the other.
+ * Each transaction is mined before the next step is sent, and the execution stops at the first error, thrown or returned.
+ * A failed execution can be resumed by passing its nextStep as planOptions.fromStep.
+ * @param signer - The signer of the account executing the plan.
+ * @param plan - A Plan, returned by one of the plan functions.
+ * @param planOptions - The step to start from, the confirmations to wait for, and a progress callback.
+ * @param options - Passed to every step. autoApprove is ignored, approvals being steps of the plan.
+ * @returns - PlanExecution, with the result of every executed step.
+ */
+export const executePlan = async (
+  signer: Signer,
+  plan: Plan,
+  planOptions: PlanExecutionOptions = {},
+  options: Options = {}
+): Promise<PlanExecution> => {
+  const { fromStep = 0, confirmations = 1, onProgress } = planOptions
+  const results: SDKFunctionReturnType<Transaction>[] = []
+
+  if (!signer) {
+    return { results: [error('NoSigner')], completed: false, nextStep: fromStep }
+  }
+
+  for (let index = fromStep; index < plan.steps.length; index++) {
+    const step = plan.steps[index]
+
+    onProgress?.({ type: 'StepStarted', index, step })
+
+    let result: SDKFunctionReturnType<Transaction>
+
+    try {
+      const sent = await step.execute(signer, {
+        ...options,
+        autoApprove: false
+      })
+
+      if (!isError(sent) && sent.transaction) {
+        onProgress?.({ type: 'StepSent', index, step, result: sent })
+      }
+
+      result = await waitForTransaction(sent, confirmations)
+    } catch (e) {
+      // Thrown failures, e.g. of the provider, stop the execution like returned errors, so that it can be resumed.
+      result = error(decodeContractError(e))
+    }
+
+    results.push(result)
+
+    if (isError(result)) {
+      onProgress?.({ type: 'StepFailed', index, step, result })
+
+      return { results, completed: false, nextStep: index }
+    }
+
+    onProgress?.({
+      type:
+        result.transaction || result.populatedTransaction || result.simulation
+          ? 'StepConfirmed'
+          : 'StepSkipped',
+      index,
+      step,
+      result
+    })
+  }
+
+  return { results, completed: true, nextStep: plan.steps.length }
+}
@@ -0,0 +1,536 @@
+import { AMM } from '@apwine/amm'
+import { Controller, FutureVault } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, ethers, Signer } from 'ethers'
+import { PAIR_IDS, POOLS } from './constants'
+import { fetchUserHistory } from './history'
+import { fetchPoolState } from './lp'
+import { fetchPortfolio } from './portfolio'
+import { fetchRedeemablePositions } from './redeem'
+import {
+  FuturePnL,
+  HistoryQuery,
+  HistoryRecord,
+  Network,
+  PairId,
+  PnLEventValue,
+  PoolSnapshot,
+  PnLPositionInput,
+  PnLReport,
+  PnLSummary,
+  PnLToken,
+  PnLTokenReport
+} from './types'
+import { getAddress } from './utils/general'
+import { bmul, BONE, calcSpotPrice, calcTokensOutGivenLPIn } from './utils/math'
+import { toUnderlying } from './utils/swap'
+
+type LedgerKey = 'PT' | 'FYT' | 'LP0' | 'LP1'
+
+type Ledger = {
+  quantity: BigNumber
+  cost: BigNumber
+  realised: BigNumber
+}
+
+type Ledgers = Record<LedgerKey, Ledger>
+
+const ZERO = BigNumber.from(0)
+
+const lpLedgerKey = (pairId: PairId): LedgerKey => (pairId === 0 ? 'LP0' : 'LP1')
+
+const createLedgers = (): Ledgers => ({
+  PT: { quantity: ZERO, cost: ZERO, realised: ZERO },
+  FYT: { quantity: ZERO, cost: ZERO, realised: ZERO },
+  LP0: { quantity: ZERO, cost: ZERO, realised: ZERO },
+  LP1: { quantity: ZERO, cost: ZERO, realised: ZERO }
+})
+
+const min = (a: BigNumber, b: BigNumber) => (a.lt(b) ? a : b)
+
+/**
+ * The average cost of a part of a ledger.
+ */
+const costOf = (ledger: Ledger, quantity: BigNumber) =>
+  ledger.quantity.isZero()
+    ? ZERO
+    : ledger.cost.mul(min(quantity, ledger.quantity)).div(ledger.quantity)
+
+const buy = (ledger: Ledger, quantity: BigNumber, value: BigNumber) => {
+  ledger.quantity = ledger.quantity.add(quantity)
+  ledger.cost = ledger.cost.add(value)
+}
+
+/**
+ * Remove a quantity from a ledger at its average cost, and realise the difference with its value if there is one.
+ * Quantities above the ledger were acquired outside of the records, and have no cost.
+ * @returns - the cost removed from the ledger.
+ */
+const sell = (ledger: Ledger, quantity: BigNumber, value?: BigNumber) => {
+  const cost = costOf(ledger, quantity)
+
+  ledger.quantity = ledger.quantity.sub(min(quantity, ledger.quantity))
+  ledger.cost = ledger.cost.sub(cost)
+
+  if (value) {
+    ledger.realised = ledger.realised.add(value.sub(cost))
+  }
+
+  return cost
+}
+
+/**
+ * Split an Underlying amount between PT and FYT, proportionally to their prices.
+ */
+const splitByPrices = (
+  amount: BigNumber,
+  prices: Record<'PT' | 'FYT', BigNumber>
+): [BigNumber, BigNumber] => {
+  const total = prices.PT.add(prices.FYT)
+  const ptShare = total.isZero()
+    ? amount.div(2)
+    : amount.mul(prices.PT).div(total)
+
+  return [ptShare, amount.sub(ptShare)]
+}
+
+/**
+ * Identify a history record, to pass the values of its event.
+ * @param record - a HistoryRecord.
+ * @returns - the key of the record in eventValues.
+ */
+export const getHistoryRecordKey = ({
+  transactionHash,
+  logIndex
+}: Pick<HistoryRecord, 'transactionHash' | 'logIndex'>) =>
+  `${transactionHash}-${logIndex}`
+
+const applyRecord = (
+  ledgers: Ledgers,
+  record: HistoryRecord,
+  position: PnLPositionInput,
+  eventValues: Record<string, PnLEventValue>
+) => {
+  const eventValue = eventValues[getHistoryRecordKey(record)]
+
+  switch (record.type) {
+    case 'Deposit': {
+      // One PT and one FYT are minted for each Underlying deposited.
+      const amount = eventValue?.value ?? record.amount
+      const [ptCost, fytCost] = splitByPrices(
+        amount,
+        eventValue?.prices ?? position.prices
+      )
+
+      buy(ledgers.PT, amount, ptCost)
+      buy(ledgers.FYT, amount, fytCost)
+      break
+    }
+    case 'Withdraw': {
+      const amount = eventValue?.value ?? record.amount
+      const [ptValue, fytValue] = splitByPrices(
+        amount,
+        eventValue?.prices ?? position.prices
+      )
+
+      sell(ledgers.PT, amount, ptValue)
+      sell(ledgers.FYT, amount, fytValue)
+      break
+    }
+    case 'Swap': {
+      const { tokenIn, tokenOut, amountIn, amountOut } = record
+
+      if (tokenIn === 'Underlying' && tokenOut !== 'Underlying') {
+        buy(ledgers[tokenOut], amountOut, amountIn)
+      } else if (tokenOut === 'Underlying' && tokenIn !== 'Underlying') {
+        sell(ledgers[tokenIn], amountIn, amountOut)
+      } else if (tokenIn !== 'Underlying' && tokenOut !== 'Underlying') {
+        // PT <-> FYT swaps carry the cost of the tokens given away.
+        buy(ledgers[tokenOut], amountOut, sell(ledgers[tokenIn], amountIn))
+      }
+      break
+    }
+    case 'AddLiquidity': {
+      const lpLedger = ledgers[lpLedgerKey(record.pairId)]
+
+      if (!eventValue?.tokens) {
+        const value =
+          eventValue?.value ??
+          toUnderlying(record.lpAmount, position.prices.LP[record.pairId])
+
+        buy(lpLedger, record.lpAmount, value)
+        break
+      }
+
+      // The PT and FYT added to the pool carry their cost to the LP tokens.
+      const { amounts } = eventValue.tokens
+      const cost = POOLS[record.pairId].reduce(
+        (acc, token, i) =>
+          acc.add(
+            token === 'Underlying'
+              ? amounts[i]
+              : sell(ledgers[token], amounts[i])
+          ),
+        ZERO
+      )
+
+      buy(lpLedger, record.lpAmount, cost)
+      break
+    }
+    case 'RemoveLiquidity': {
+      const lpLedger = ledgers[lpLedgerKey(record.pairId)]
+
+      if (!eventValue?.tokens) {
+        const value =
+          eventValue?.value ??
+          toUnderlying(record.lpAmount, position.prices.LP[record.pairId])
+
+        sell(lpLedger, record.lpAmount, value)
+        break
+      }
+
+      // The PT and FYT removed from the pool are bought back at their value.
+      const { amounts, values } = eventValue.tokens
+
+      sell(lpLedger, record.lpAmount, eventValue.value)
+      POOLS[record.pairId].forEach((token, i) => {
+        if (token !== 'Underlying') {
+          buy(ledgers[token], amounts[i], values[i])
+        }
+      })
+      break
+    }
+    case 'ClaimFYT':
+      // Claimed FYTs were already accounted for by the deposits.
+      break
+  }
+}
+
+const reportLedger = (
+  ledger: Ledger,
+  balance: BigNumber,
+  price: BigNumber
+): PnLTokenReport => {
+  const value = toUnderlying(balance, price)
+  const costBasis = costOf(ledger, balance)
+
+  return {
+    balance,
+    value,
+    costBasis,
+    realisedPnL: ledger.realised,
+    unrealisedPnL: value.sub(costBasis)
+  }
+}
+
+const sumReports = (reports: PnLTokenReport[]) =>
+  reports.reduce((acc, report) => ({
+    balance: acc.balance.add(report.balance),
+    value: acc.value.add(report.value),
+    costBasis: acc.costBasis.add(report.costBasis),
+    realisedPnL: acc.realisedPnL.add(report.realisedPnL),
+    unrealisedPnL: acc.unrealisedPnL.add(report.unrealisedPnL)
+  }))
+
+const summarize = (
+  reports: Pick<PnLSummary, 'realisedPnL' | 'unrealisedPnL'>[],
+  accruedYield: BigNumber
+): PnLSummary => {
+  const realisedPnL = reports.reduce(
+    (acc, { realisedPnL }) => acc.add(realisedPnL),
+    ZERO
+  )
+  const unrealisedPnL = reports.reduce(
+    (acc, { unrealisedPnL }) => acc.add(unrealisedPnL),
+    ZERO
+  )
+
+  return {
+    realisedPnL,
+    unrealisedPnL,
+    accruedYield,
+    totalPnL: realisedPnL.add(unrealisedPnL).add(accruedYield)
+  }
+}
+
+/**
+ * Compute the PnL of the positions of a future, in Underlying, with the average cost method.
+ * The records are applied in order:
+ * - deposits mint one PT and one FYT per Underlying, their cost being split proportionally to the PT and FYT prices at their block, or to the current prices.
+ * - swaps from or to Underlying buy or sell PT and FYT, swaps between PT and FYT carry their cost.
+ * - liquidity changes move PT and FYT between their ledgers and the LP ledger, when eventValues has the pool tokens of the change.
+ *   Without them, LP tokens are bought or sold at the value of the change, or at the current LP price.
+ * @param records - The HistoryRecords of the future, ordered by block and log index.
+ * @param position - The current prices, balances and accrued yield of the future.
+ * @param eventValues - The PnLEventValues of deposits, withdrawals and liquidity changes at their block, by getHistoryRecordKey.
+ * @returns - FuturePnL
+ */
+export const computeFuturePnL = (
+  records: HistoryRecord[],
+  position: PnLPositionInput,
+  eventValues: Record<string, PnLEventValue> = {}
+): FuturePnL => {
+  const ledgers = createLedgers()
+  const future = getAddress(position.future)
+
+  records
+    .filter((record) => getAddress(record.future) === future)
+    .forEach((record) => applyRecord(ledgers, record, position, eventValues))
+
+  const { prices, balances } = position
+  const tokens: Record<PnLToken, PnLTokenReport> = {
+    PT: reportLedger(ledgers.PT, balances.PT, prices.PT),
+    FYT: reportLedger(ledgers.FYT, balances.FYT, prices.FYT),
+    LP: sumReports([
+      reportLedger(ledgers.LP0, balances.LP[0], prices.LP[0]),
+      reportLedger(ledgers.LP1, balances.LP[1], prices.LP[1])
+    ])
+  }
+
+  return {
+    future,
+    tokens,
+    ...summarize(Object.values(tokens), position.accruedYield)
+  }
+}
+
+/**
+ * Compute the PnL of the positions of every future, in Underlying.
+ * @param records - The HistoryRecords of the account, ordered by block and log index.
+ * @param positions - The current prices, balances and accrued yield of each future.
+ * @param eventValues - The PnLEventValues of deposits, withdrawals and liquidity changes at their block, by getHistoryRecordKey.
+ * @returns - PnLReport, with the PnL of each future and their totals.
+ */
+export const computePnL = (
+  records: HistoryRecord[],
+  positions: PnLPositionInput[],
+  eventValues: Record<string, PnLEventValue> = {}
+): PnLReport => {
+  const futures = positions.map((position) =>
+    computeFuturePnL(records, position, eventValues)
+  )
+
+  return {
+    futures,
+    ...summarize(
+      futures,
+      futures.reduce((acc, { accruedYield }) => acc.add(accruedYield), ZERO)
+    )
+  }
+}
+
+/**
+ * Fetch a pool of an AMM, as it was at a block.
+ */
+const fetchPoolSnapshotAt = async (
+  amm: AMM,
+  pairId: PairId,
+  blockTag: number
+): Promise<PoolSnapshot> => {
+  const overrides = { blockTag }
+  const [pair, ammId, periodIndex, swapFee] = await Promise.all([
+    amm.getPairWithID(pairId, overrides),
+    amm.ammId(overrides),
+    amm.currentPeriodIndex(overrides),
+    amm.swapFee(overrides)
+  ])
+  const lpTokenId = await amm.getLPTokenId(
+    ammId,
+    periodIndex,
+    pairId,
+    overrides
+  )
+
+  return {
+    reserves: pair.balances,
+    weights: pair.weights,
+    swapFee,
+    lpTotalSupply: await amm.getTotalSupplyWithTokenId(lpTokenId, overrides)
+  }
+}
+
+/**
+ * Fetch both pools of an AMM and the Underlying prices of PT and FYT, as they were at a block.
+ * PT is priced in the first pool, FYT in PT in the second one, fees included like the current prices.
+ */
+const fetchPricesAt = async (amm: AMM, blockTag: number) => {
+  const pools = await Promise.all(
+    PAIR_IDS.map((pairId) => fetchPoolSnapshotAt(amm, pairId, blockTag))
+  )
+
+  const [ptPool, fytPool] = pools
+  const ptPrice = calcSpotPrice(
+    ptPool.reserves[1],
+    ptPool.weights[1],
+    ptPool.reserves[0],
+    ptPool.weights[0],
+    ptPool.swapFee
+  )
+  const fytPrice = bmul(
+    calcSpotPrice(
+      fytPool.reserves[0],
+      fytPool.weights[0],
+      fytPool.reserves[1],
+      fytPool.weights[1],
+      fytPool.swapFee
+    ),
+    ptPrice
+  )
+
+  return { pools, prices: { PT: ptPrice, FYT: fytPrice } }
+}
+
+/**
+ * Fetch the Underlying value of a deposit or a withdrawal, and the prices splitting it between PT and FYT, at the block of the event.
+ * The past state is read with blockTag queries, which need an archive node.
+ * @param vault - The future vault of the event.
+ * @param amm - The AMM of the future.
+ * @param record - The Deposit or Withdraw record, in IBT.
+ * @returns - PnLEventValue
+ */
+export const fetchDepositEventValue = async (
+  vault: FutureVault,
+  amm: AMM,
+  record: Extract<HistoryRecord, { type: 'Deposit' | 'Withdraw' }>
+): Promise<PnLEventValue> => {
+  const [value, { prices }] = await Promise.all([
+    vault.convertIBTToUnderlying(record.amount, {
+      blockTag: record.blockNumber
+    }),
+    fetchPricesAt(amm, record.blockNumber)
+  ])
+
+  return { value, prices }
+}
+
+/**
+ * Fetch the pool tokens moved by a liquidity change, and their Underlying value, at the block of the change.
+ * The past state is read with blockTag queries, which need an archive node.
+ * @param amm - The AMM of the change.
+ * @param record - The AddLiquidity or RemoveLiquidity record.
+ * @returns - PnLEventValue
+ */
+export const fetchLiquidityEventValue = async (
+  amm: AMM,
+  record: Extract<HistoryRecord, { type: 'AddLiquidity' | 'RemoveLiquidity' }>
+): Promise<PnLEventValue> => {
+  const { pools, prices } = await fetchPricesAt(amm, record.blockNumber)
+  const { reserves, lpTotalSupply } = pools[record.pairId]
+  const amounts = calcTokensOutGivenLPIn(
+    reserves,
+    lpTotalSupply,
+    record.lpAmount
+  )
+
+  const tokenPrices = { ...prices, Underlying: BONE }
+  const values = POOLS[record.pairId].map((token, i) =>
+    bmul(amounts[i], tokenPrices[token])
+  ) as [BigNumber, BigNumber]
+
+  return {
+    value: values[0].add(values[1]),
+    prices,
+    tokens: { amounts, values }
+  }
+}
+
+/**
+ * Fetch the history and the positions of an account, and compute its PnL.
+ * Each event is valued at its block: deposits and withdrawals at the IBT rate and the PT and FYT prices, liquidity changes at the reserves and LP supply of the pools.
+ * The past state is read with blockTag queries, which need an archive node.
+ * @param signerOrProvider - Use a MulticallProvider, to batch the queries.
+ * @param network - The network of the futures.
+ * @param account - The owner of the positions.
+ * @param query - The block range of the history, up to the latest block by default.
+ * @param controller - The Controller instance, fetched if not passed.
+ * @returns - PnLReport
+ */
+export const fetchPnL = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  account: string,
+  query: Omit<HistoryQuery, 'account'>,
+  controller?: Controller | null
+): Promise<PnLReport> => {
+  const [records, portfolio, redeemablePositions] = await Promise.all([
+    fetchUserHistory(signerOrProvider, network, account, query),
+    fetchPortfolio(signerOrProvider, network, account),
+    fetchRedeemablePositions(signerOrProvider, network, account, controller)
+  ])
+
+  const positions = await Promise.all(
+    portfolio.map(async (position): Promise<PnLPositionInput> => {
+      const { vault, amm, prices, lpPositions } = position
+      const poolStates = await Promise.all(
+        PAIR_IDS.map((pairId) =>
+          fetchPoolState(signerOrProvider, network, amm, pairId)
+        )
+      )
+
+      const [lp0, lp1] = poolStates.map(
+        ({ pairId, periodIndex, tvl, lpTotalSupply }) => ({
+          price: lpTotalSupply.isZero()
+            ? ZERO
+            : tvl.mul(ethers.constants.WeiPerEther).div(lpTotalSupply),
+          // Only the LP tokens of the current period are valued.
+          balance: lpPositions
+            .filter(
+              (lp) => lp.pairId === pairId && periodIndex.eq(lp.periodIndex)
+            )
+            .reduce((acc, { balance }) => acc.add(balance), ZERO)
+        })
+      )
+
+      const accruedYield = redeemablePositions
+        .filter(
+          ({ type, future }) =>
+            type === 'FYT' && future.address === vault.address
+        )
+        .reduce((acc, { underlyingAmount }) => acc.add(underlyingAmount), ZERO)
+
+      return {
+        future: vault.address,
+        prices: { PT: prices.PT, FYT: prices.FYT, LP: [lp0.price, lp1.price] },
+        balances: {
+          PT: position.ptBalance,
+          FYT: position.fytBalance.add(position.claimableFYT),
+          LP: [lp0.balance, lp1.balance]
+        },
+        accruedYield
+      }
+    })
+  )
+
+  const futures = Object.fromEntries(
+    portfolio.map(({ vault, amm }) => [
+      getAddress(vault.address),
+      { vault, amm }
+    ])
+  )
+  const eventValues: Record<string, PnLEventValue> = {}
+
+  await Promise.all(
+    records.map(async (record) => {
+      const future = futures[record.future]
+      const key = getHistoryRecordKey(record)
+
+      if (!future) {
+        return
+      }
+
+      if (record.type === 'Deposit' || record.type === 'Withdraw') {
+        eventValues[key] = await fetchDepositEventValue(
+          future.vault,
+          future.amm,
+          record
+        )
+      }
+
+      if (record.type === 'AddLiquidity' || record.type === 'RemoveLiquidity') {
+        eventValues[key] = await fetchLiquidityEventValue(future.amm, record)
+      }
+    })
+  )
+
+  return computePnL(records, positions, eventValues)
+}
@@ -0,0 +1,173 @@
+import { FutureVault } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, Signer } from 'ethers'
+import range from 'ramda/src/range'
+import xprod from 'ramda/src/xprod'
+import { PAIR_IDS } from './constants'
+import { getTokenContract } from './contracts'
+import { fetchAllFutureVaults, fetchAMM } from './futures'
+import { fetchLPTokenPool, getLPTokenContract } from './lp'
+import { fetchUnderlyingPrice } from './swap'
+import {
+  FuturePosition,
+  LPPosition,
+  Network,
+  Portfolio
+} from './types'
+import { toUnderlying } from './utils/swap'
+
+/**
+ * Fetch the position of an account on a single future.
+ * @param signerOrProvider
+ * @param network - The network of the future.
+ * @param account - The owner of the position.
+ * @param future - The target future vault.
+ * @returns - The balances and the Underlying valuation of the position.
+ */
+export const fetchFuturePosition = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  account: string,
+  future: FutureVault
+): Promise<FuturePosition> => {
+  const amm = await fetchAMM(signerOrProvider, network, future)
+
+  const [
+    ibtAddress,
+    ptAddress,
+    fytAddress,
+    lpAddress,
+    currentPeriodIndex,
+    ammPeriodIndex
+  ] = await Promise.all([
+    future.getIBTAddress(),
+    future.getPTAddress(),
+    amm.getFYTAddress(),
+    amm.getPoolTokenAddress(),
+    future.getCurrentPeriodIndex(),
+    amm.currentPeriodIndex()
+  ])
+
+  const lpToken = getLPTokenContract(signerOrProvider, lpAddress)
+  const lpTokenPools = await Promise.all(
+    xprod(PAIR_IDS, range(0, ammPeriodIndex.toNumber() + 1)).map(
+      async ([pairId, periodIndex]) => {
+        const { id } = await fetchLPTokenPool(
+          signerOrProvider,
+          amm,
+          pairId,
+          periodIndex
+        )
+
+        return { id, pairId, periodIndex }
+      }
+    )
+  )
+
+  const [
+    ibtBalance,
+    ptBalance,
+    fytBalance,
+    claimableFYT,
+    lpBalances,
+    ptPrice,
+    fytPrice
+  ] = await Promise.all([
+    getTokenContract(signerOrProvider, ibtAddress).balanceOf(account),
+    getTokenContract(signerOrProvider, ptAddress).balanceOf(account),
+    getTokenContract(signerOrProvider, fytAddress).balanceOf(account),
+    future.getClaimableFYTForPeriod(account, currentPeriodIndex),
+    lpToken.balanceOfBatch(
+      lpTokenPools.map(() => account),
+      lpTokenPools.map(({ id }) => id)
+    ),
+    fetchUnderlyingPrice(signerOrProvider, network, future, 'PT'),
+    fetchUnderlyingPrice(signerOrProvider, network, future, 'FYT')
+  ])
+
+  const lpPositions: LPPosition[] = await Promise.all(
+    lpTokenPools
+      .map((pool, i) => ({ ...pool, balance: lpBalances[i] }))
+      .filter(({ balance }) => !balance.isZero())
+      .map(async ({ id, pairId, periodIndex, balance }) => {
+        // Only the pools of the current period hold reserves, expired LP tokens are withdrawn through the AMM.
+        if (!ammPeriodIndex.eq(periodIndex)) {
+          return {
+            id,
+            pairId,
+            periodIndex,
+            balance,
+            value: BigNumber.from(0)
+          }
+        }
+
+        const [{ balances }, totalSupply] = await Promise.all([
+          amm.getPairWithID(pairId),
+          amm.getTotalSupplyWithTokenId(id)
+        ])
+
+        const [ptReserve, otherReserve] = balances.map((reserve) =>
+          totalSupply.isZero()
+            ? BigNumber.from(0)
+            : reserve.mul(balance).div(totalSupply)
+        )
+
+        const value = toUnderlying(ptReserve, ptPrice).add(
+          pairId === 0 ? otherReserve : toUnderlying(otherReserve, fytPrice)
+        )
+
+        return { id, pairId, periodIndex, balance, value }
+      })
+  )
+
+  const ibtValue = await future.convertIBTToUnderlying(ibtBalance)
+  const ptValue = toUnderlying(ptBalance, ptPrice)
+  const fytValue = toUnderlying(fytBalance.add(claimableFYT), fytPrice)
+  const lpValue = lpPositions.reduce(
+    (acc, { value }) => acc.add(value),
+    BigNumber.from(0)
+  )
+
+  return {
+    vault: future,
+    amm,
+    periodIndex: currentPeriodIndex,
+    ibtBalance,
+    ptBalance,
+    fytBalance,
+    claimableFYT,
+    lpPositions,
+    prices: {
+      PT: ptPrice,
+      FYT: fytPrice
+    },
+    value: {
+      IBT: ibtValue,
+      PT: ptValue,
+      FYT: fytValue,
+      LP: lpValue,
+      total: ibtValue.add(ptValue).add(fytValue).add(lpValue)
+    }
+  }
+}
+
+/**
+ * Fetch the positions of an account on every future.
+ * @param signerOrProvider - Use a MulticallProvider, to batch the queries.
+ * @param network - The network of the futures.
+ * @param account - The owner of the positions.
+ * @returns - A collection of positions, one for each future.
+ */
+export const fetchPortfolio = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  account: string
+): Promise<Portfolio> => {
+  const vaults = await fetchAllFutureVaults(signerOrProvider, network)
+
+  return Promise.all(
+    vaults.map((vault) =>
+      fetchFuturePosition(signerOrProvider, network, account, vault)
+    )
+  )
+}
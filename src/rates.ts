@@ -0,0 +1,156 @@
+import { Controller, FutureVault } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, BigNumberish, Signer } from 'ethers'
+import { formatUnits } from 'ethers/lib/utils'
+import { DAY, YEAR } from './constants'
+import { getControllerContract } from './contracts'
+import { fetchSpotPrice } from './swap'
+import { FutureAggregate, FutureRates, Network } from './types'
+import { isError } from './utils/general'
+
+/**
+ * Convert a price with 18 decimals, like the spot price, to a number.
+ * @param price - the price in BigNumber format.
+ * @returns - the price as a number.
+ */
+export const priceToNumber = (price: BigNumberish) =>
+  Number(formatUnits(price, 18))
+
+/**
+ * Calculate the time left until the end of the current period.
+ * @param nextPeriodTimestamp - the start of the next period, in seconds.
+ * @param now - the current time, in seconds.
+ * @returns - the time to maturity in seconds, zero if the period has ended.
+ */
+export const getTimeToMaturity = (
+  nextPeriodTimestamp: BigNumberish,
+  now: number = Math.floor(Date.now() / 1000)
+) => Math.max(BigNumber.from(nextPeriodTimestamp).toNumber() - now, 0)
+
+/**
+ * Express a duration in days.
+ * @param seconds - the duration in seconds.
+ * @returns - the duration in days.
+ */
+export const toDays = (seconds: number) => seconds / DAY
+
+/**
+ * Calculate the fixed APR of PT, which is redeemable for one Underlying at maturity.
+ * @param ptPrice - the price of PT in Underlying.
+ * @param timeToMaturity - the time to maturity in seconds.
+ * @returns - the APR as a percentage.
+ */
+export const getFixedAPR = (ptPrice: number, timeToMaturity: number) => {
+  if (ptPrice <= 0 || timeToMaturity <= 0) {
+    return 0
+  }
+
+  return (1 / ptPrice - 1) * (YEAR / timeToMaturity) * 100
+}
+
+/**
+ * Calculate the fixed APY of PT, which is redeemable for one Underlying at maturity.
+ * @param ptPrice - the price of PT in Underlying.
+ * @param timeToMaturity - the time to maturity in seconds.
+ * @returns - the APY as a percentage.
+ */
+export const getFixedAPY = (ptPrice: number, timeToMaturity: number) => {
+  if (ptPrice <= 0 || timeToMaturity <= 0) {
+    return 0
+  }
+
+  return (Math.pow(1 / ptPrice, YEAR / timeToMaturity) - 1) * 100
+}
+
+/**
+ * Calculate the yield implied by the price of FYT.
+ * One PT and one FYT are worth one Underlying, so the FYT price is the share of the yield in that Underlying.
+ * @param fytPrice - the price of FYT in Underlying.
+ * @param timeToMaturity - the time to maturity in seconds.
+ * @returns - the implied yield until maturity, and its annualized APR, as percentages.
+ */
+export const getFYTImpliedYield = (
+  fytPrice: number,
+  timeToMaturity: number
+) => {
+  if (fytPrice <= 0 || fytPrice >= 1 || timeToMaturity <= 0) {
+    return { periodYield: 0, apr: 0 }
+  }
+
+  const periodYield = fytPrice / (1 - fytPrice)
+
+  return {
+    periodYield: periodYield * 100,
+    apr: periodYield * (YEAR / timeToMaturity) * 100
+  }
+}
+
+/**
+ * Calculate all rates of a future, from its prices.
+ * @param ptPrice - the price of PT in Underlying.
+ * @param fytPrice - the price of FYT in Underlying.
+ * @param nextPeriodTimestamp - the start of the next period, in seconds.
+ * @param now - the current time, in seconds.
+ * @returns - FutureRates
+ */
+export const getFutureRates = (
+  ptPrice: BigNumberish,
+  fytPrice: BigNumberish,
+  nextPeriodTimestamp: BigNumberish,
+  now?: number
+): FutureRates => {
+  const timeToMaturity = getTimeToMaturity(nextPeriodTimestamp, now)
+  const pt = priceToNumber(ptPrice)
+  const fyt = priceToNumber(fytPrice)
+  const { periodYield, apr } = getFYTImpliedYield(fyt, timeToMaturity)
+
+  return {
+    timeToMaturity,
+    daysToMaturity: toDays(timeToMaturity),
+    ptPrice: pt,
+    fytPrice: fyt,
+    fixedAPR: getFixedAPR(pt, timeToMaturity),
+    fixedAPY: getFixedAPY(pt, timeToMaturity),
+    fytImpliedYield: periodYield,
+    fytImpliedAPR: apr
+  }
+}
+
+/**
+ * Fetch the prices of a future, and calculate its rates.
+ * @param signerOrProvider
+ * @param network - The network of the future.
+ * @param future - The target FutureVault, or an already fetched FutureAggregate.
+ * @param controller - The Controller instance, fetched if not passed.
+ * @returns - FutureRates
+ */
+export const fetchFutureRates = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  future: FutureVault | FutureAggregate,
+  controller?: Controller | null
+) => {
+  const vault = 'vault' in future ? future.vault : future
+
+  const nextPeriodTimestamp =
+    'nextPeriodTimestamp' in future
+      ? future.nextPeriodTimestamp
+      : await (
+        controller ?? (await getControllerContract(signerOrProvider, network))
+      ).getNextPeriodStart(await vault.PERIOD_DURATION())
+
+  const [ptPrice, fytPrice] = await Promise.all([
+    fetchSpotPrice(signerOrProvider, network, vault, 'Underlying', 'PT'),
+    fetchSpotPrice(signerOrProvider, network, vault, 'Underlying', 'FYT')
+  ])
+
+  if (isError(ptPrice)) {
+    return ptPrice
+  }
+
+  if (isError(fytPrice)) {
+    return fytPrice
+  }
+
+  return getFutureRates(ptPrice, fytPrice, nextPeriodTimestamp)
+}
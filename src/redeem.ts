@@ -0,0 +1,238 @@
+import {
+  Controller,
+  FutureVault,
+  FutureWallet__factory
+} from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { ethers, Signer } from 'ethers'
+import range from 'ramda/src/range'
+import { getControllerContract, getTokenContract } from './contracts'
+import { fetchAllFutureVaults } from './futures'
+import { fetchFYTAddressOfPeriod } from './fyt'
+import {
+  Network,
+  Options,
+  RedeemablePosition,
+  SDKFunctionReturnType,
+  Transaction
+} from './types'
+import { error } from './utils/general'
+import { sendTransaction } from './utils/transactions'
+
+/**
+ * Fetch the FYTs of ended periods of a future, which have yield to redeem.
+ */
+const fetchRedeemableFYTs = async (
+  signerOrProvider: Signer | Provider,
+  account: string,
+  future: FutureVault,
+  lastPeriodIndex: number
+): Promise<RedeemablePosition[]> => {
+  const futureWallet = FutureWallet__factory.connect(
+    await future.getFutureWalletAddress(),
+    signerOrProvider
+  )
+
+  const fetchPosition = async (
+    periodIndex: number
+  ): Promise<RedeemablePosition | null> => {
+    const fytAddress = await fetchFYTAddressOfPeriod(future, periodIndex)
+
+    if (fytAddress === ethers.constants.AddressZero) {
+      return null
+    }
+
+    const [balance, amount] = await Promise.all([
+      getTokenContract(signerOrProvider, fytAddress).balanceOf(account),
+      futureWallet.getRedeemableYield(periodIndex, account)
+    ])
+
+    return {
+      type: 'FYT',
+      future,
+      periodIndex,
+      tokenAddress: fytAddress,
+      balance,
+      amount,
+      underlyingAmount: await future.convertIBTToUnderlying(amount)
+    }
+  }
+
+  const positions = await Promise.all(
+    range(0, lastPeriodIndex).map(fetchPosition)
+  )
+
+  return positions.filter(
+    (position): position is RedeemablePosition =>
+      !!position && !position.amount.isZero()
+  )
+}
+
+/**
+ * Fetch the positions of an account on a future, which can be redeemed:
+ * FYTs of ended periods, and PTs of a terminated future.
+ * @param signerOrProvider
+ * @param account - The owner of the positions.
+ * @param future - The target future vault.
+ * @param controller - The Controller instance.
+ * @returns - A collection of RedeemablePositions.
+ */
+export const fetchRedeemablePositionsOfFuture = async (
+  signerOrProvider: Signer | Provider,
+  account: string,
+  future: FutureVault,
+  controller: Controller
+): Promise<RedeemablePosition[]> => {
+  const [isTerminated, currentPeriodIndex] = await Promise.all([
+    controller.isFutureTerminated(future.address),
+    future.getCurrentPeriodIndex()
+  ])
+
+  // The current period of a terminated future has ended as well.
+  const lastPeriodIndex =
+    currentPeriodIndex.toNumber() + (isTerminated ? 1 : 0)
+  const fytPositions = await fetchRedeemableFYTs(
+    signerOrProvider,
+    account,
+    future,
+    lastPeriodIndex
+  )
+
+  if (!isTerminated) {
+    return fytPositions
+  }
+
+  const ptAddress = await future.getPTAddress()
+  const [balance, amount] = await Promise.all([
+    getTokenContract(signerOrProvider, ptAddress).balanceOf(account),
+    future.getUnlockableFunds(account)
+  ])
+
+  if (balance.isZero() && amount.isZero()) {
+    return fytPositions
+  }
+
+  return [
+    ...fytPositions,
+    {
+      type: 'TerminatedFuture',
+      future,
+      periodIndex: currentPeriodIndex.toNumber(),
+      tokenAddress: ptAddress,
+      balance,
+      amount,
+      underlyingAmount: await future.convertIBTToUnderlying(amount)
+    }
+  ]
+}
+
+/**
+ * Fetch the positions of an account on every future, which can be redeemed.
+ * @param signerOrProvider
+ * @param network - The network of the futures.
+ * @param account - The owner of the positions.
+ * @param controller - The Controller instance, fetched if not passed.
+ * @returns - A collection of RedeemablePositions.
+ */
+export const fetchRedeemablePositions = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  account: string,
+  controller?: Controller | null
+) => {
+  const _controller =
+    controller ?? (await getControllerContract(signerOrProvider, network))
+  const vaults = await fetchAllFutureVaults(signerOrProvider, network)
+
+  const positions = await Promise.all(
+    vaults.map((vault) =>
+      fetchRedeemablePositionsOfFuture(
+        signerOrProvider,
+        account,
+        vault,
+        _controller
+      )
+    )
+  )
+
+  return positions.flat()
+}
+
+/**
+ * Redeem a position: the yield of an ended period's FYT, or the funds of a terminated future.
+ * @param signer - The signer of the owner of the position.
+ * @param network - The network of the future.
+ * @param position - A RedeemablePosition, returned by fetchRedeemablePositions.
+ * @param controller - The Controller instance, fetched if not passed.
+ * @param options
+ * @returns - an SDK returnType which contains a transaction and/or an error.
+ */
+export const redeem = async (
+  signer: Signer,
+  network: Network,
+  position: RedeemablePosition,
+  controller?: Controller | null,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>> => {
+  if (!signer) {
+    return error('NoSigner')
+  }
+
+  if (position.type === 'FYT') {
+    const futureWallet = FutureWallet__factory.connect(
+      await position.future.getFutureWalletAddress(),
+      signer
+    )
+
+    return sendTransaction(
+      futureWallet,
+      'redeemYield',
+      [position.periodIndex],
+      options
+    )
+  }
+
+  const _controller = (
+    controller ?? (await getControllerContract(signer, network))
+  ).connect(signer)
+
+  return sendTransaction(
+    _controller,
+    'exitTerminatedFuture',
+    [position.future.address, await signer.getAddress()],
+    options
+  )
+}
+
+/**
+ * Redeem every redeemable position of an account. The transactions are sent one after the other.
+ * @param signer - The signer of the owner of the positions.
+ * @param network - The network of the futures.
+ * @param controller - The Controller instance, fetched if not passed.
+ * @param options
+ * @returns - A collection of SDK returnTypes, one for each redeemed position.
+ */
+export const redeemAll = async (
+  signer: Signer,
+  network: Network,
+  controller?: Controller | null,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>[]> => {
+  if (!signer) {
+    return [error('NoSigner')]
+  }
+
+  const positions = await fetchRedeemablePositions(
+    signer,
+    network,
+    await signer.getAddress(),
+    controller
+  )
+  const results: SDKFunctionReturnType<Transaction>[] = []
+
+  for (const position of positions) {
+    results.push(await redeem(signer, network, position, controller, options))
+  }
+
+  return results
+}
@@ -8,8 +8,9 @@ import {
   PT__factory,
   Registry
 } from '@apwine/protocol'
-import { Provider } from '@ethersproject/providers'
-import { BigNumberish, Signer } from 'ethers'
+import { Network as ChainNetwork, Provider } from '@ethersproject/providers'
+import { TokenAmount } from '@uniswap/sdk'
+import { BigNumber, BigNumberish, Signer, VoidSigner } from 'ethers'
 import {
   getAMMRegistryContract,
   getAMMRouterContract,
@@ -18,40 +19,138 @@ import {
 } from './contracts'
 import {
   approve,
+  approveAndWait,
   deposit,
   fetchAllAMMs,
-  fetchAllFutureAggregates,
   fetchAllFutureVaults,
   fetchAllowance,
   fetchAMM,
+  fetchAMMPeriods,
   fetchFutureAggregateFromAddress,
   fetchFutureAggregateFromIndex,
   isApprovalNecessary,
   updateAllowance,
   withdraw
 } from './futures'
-import { fetchFYTTokens } from './fyt'
+import {
+  claimAllFYT,
+  claimFYT,
+  fetchAllClaimableFYT,
+  fetchClaimableFYT,
+  fetchFYTAddressOfPeriod,
+  fetchFYTTokens,
+  fetchFYTTokensOfFuture
+} from './fyt'
 import {
   addLiquidity,
   approveLPForAll,
   fetchAllLPTokenPools,
+  fetchAllPoolStates,
   fetchLPTokenPool,
+  fetchPoolState,
   isLPApprovedForAll,
+  quoteAddLiquidity,
+  quoteRemoveLiquidity,
   removeLiquidity
 } from './lp'
-import { fetchSpotPrice, swap } from './swap'
+import { fetchFutureHistory, fetchUserHistory } from './history'
+import {
+  executePlan,
+  planAddLiquidity,
+  planDeposit,
+  planRemoveLiquidity,
+  planSwap,
+  planZap
+} from './plan'
+import {
+  createCache,
+  invalidatePeriodCache,
+  scopeCache,
+  syncPeriodCache
+} from './cache'
+import { watchOrder } from './orders'
+import { isPermitSupported, signPermit, submitPermit } from './permit'
+import { computePnL, fetchPnL } from './pnl'
+import { fetchPortfolio } from './portfolio'
+import { fetchFutureRates } from './rates'
+import { fetchRedeemablePositions, redeem, redeemAll } from './redeem'
+import { fetchMaxTradeSize } from './sizing'
+import {
+  fetchAMMTokens,
+  fetchFutureTokens,
+  fetchTokenBalance,
+  fetchTokenMetadata,
+  withAddLiquidityQuoteTokenAmounts,
+  withClaimableFYTTokenAmounts,
+  withFuturePositionTokenAmounts,
+  withPoolStateTokenAmounts,
+  withRemoveLiquidityQuoteTokenAmounts,
+  withSwapQuoteTokenAmounts,
+  withZapQuoteTokenAmounts
+} from './tokens'
+import {
+  subscribeAllowance,
+  subscribeBalance,
+  subscribePeriod,
+  subscribeSpotPrices
+} from './subscriptions'
+import { executeSwap, fetchSpotPrice, quoteSwap, swap } from './swap'
+import { executeZap, quoteZapIn, quoteZapOut, zapIn, zapOut } from './zap'
 import {
   AddLiquidityParams,
+  Amount,
   APWToken,
+  Cache,
+  ConditionalOrder,
+  Error,
+  FutureAggregate,
+  FutureTokens,
+  HistoryQuery,
+  HistoryRecord,
   Network,
+  NetworkConfig,
   Options,
+  OrderUpdate,
   PairId,
+  PairSpotPrices,
+  PeriodUpdate,
+  PermitSignature,
+  Plan,
+  PlanExecution,
+  PlanExecutionOptions,
+  PnLEventValue,
+  PnLPositionInput,
+  RedeemablePosition,
   RemoveLiquidityParams,
   SDKOptions,
+  SDKFunctionReturnType,
   SDKProps,
+  Subscription,
+  SubscriptionOptions,
   SwapParams,
-  WithOptional
+  SwapQuote,
+  TradeLimit,
+  Transaction,
+  WatchOrderOptions,
+  WithAmount,
+  WithOptional,
+  ZapInParams,
+  ZapOutParams,
+  ZapQuote
 } from './types'
+import {
+  checkNetwork,
+  error,
+  getNetworkByChainId,
+  getNetworkChainId,
+  getNetworkConfig,
+  isError,
+  isNetworkSupported,
+  registerNetwork
+} from './utils/general'
+import { isDryRun } from './utils/transactions'
+import { toBigNumber } from './utils/tokens'
+import { ErrorCode, UnsupportedNetworkError } from './errors'
 
 class APWineSDK {
   /**
@@ -61,10 +160,15 @@ class APWineSDK {
   ready: ReturnType<APWineSDK['initialize']> | boolean = false
 
   /**
-   * The slippage tolerance being used by default on swaps.
+   * The slippage tolerance being used by default on swaps and liquidity operations.
    */
   defaultSlippage: number
 
+  /**
+   * Throw errors instead of returning them in an error object.
+   */
+  throwOnError: boolean
+
   /**
    * The network the SDK instance is connected to.
    */
@@ -75,6 +179,11 @@ class APWineSDK {
    */
   provider: Provider
 
+  /**
+   * The provider before being wrapped into a MulticallProvider, wrapped again on network updates.
+   */
+  private baseProvider: Provider
+
   /**
    * The signer, necessary for executing transactions.
    */
@@ -91,6 +200,27 @@ class APWineSDK {
    */
   defaultUser = ''
 
+  /**
+   * The live subscriptions of the SDK instance, see sdk.unsubscribeAll.
+   */
+  subscriptions = new Set<Subscription>()
+
+  /**
+   * The cache of static and slow-changing on-chain data, like token addresses and period durations.
+   * Scoped to the chain of the network, and disabled when null.
+   */
+  cache: Cache | null
+
+  /**
+   * Whether a provider or a signer on another chain than the network rejects sdk.ready, or only logs a warning.
+   */
+  networkMismatch: 'error' | 'warn'
+
+  /**
+   * The subscription to the chain changes of the provider, see sdk.watchNetwork.
+   */
+  private networkWatcher: Subscription | null = null
+
   /**
    * The AMM Registry contract instance. Keeps track of all AMMs.
    */
@@ -122,23 +252,40 @@ class APWineSDK {
    *Creates a new APWine SDK instance.
    * @param param0 - An object containing a network a spender,  a provider
      and an optional signer.
+   * @throws - InvalidNetworkConfigError for an invalid custom network, UnsupportedNetworkError for an unknown network.
    */
   constructor(
-    { network, provider, signer = null, defaultSlippage = 0.5 }: SDKProps,
+    {
+      network,
+      provider,
+      signer = null,
+      defaultSlippage = 0.5,
+      throwOnError = false,
+      cache = createCache(),
+      networks = [],
+      networkMismatch = 'warn',
+      watchNetwork = false
+    }: SDKProps,
     options: SDKOptions = { initialize: true }
   ) {
-    this.provider = provider
+    networks.forEach((networkConfig) => {
+      const result = registerNetwork(networkConfig)
 
-    if (signer) {
-      this.signer = signer
-    }
+      if (isError(result)) {
+        throw result.error
+      }
+    })
 
-    this.provider = new providers.MulticallProvider(provider)
+    this.baseProvider = provider
+    this.provider = this.wrapProvider(provider, network)
     this.signer = signer
 
     this.signerOrProvider = this.signer ?? this.provider
 
     this.defaultSlippage = defaultSlippage
+    this.throwOnError = throwOnError
+    this.cache = cache && scopeCache(cache, getNetworkChainId(network))
+    this.networkMismatch = networkMismatch
     this.network = network
 
     this.AMMRegistry = getAMMRegistryContract(this.signerOrProvider, network)
@@ -149,8 +296,66 @@ class APWineSDK {
       FutureVault__factory.connect(address, this.signerOrProvider)
 
     if (options.initialize) {
-      this.initialize()
+      // A failed initialization is surfaced by sdk.ready.
+      this.initialize().catch(() => undefined)
+    }
+
+    if (watchNetwork) {
+      this.watchNetwork()
+    }
+  }
+
+  /**
+   * Creates a new APWine SDK instance on the network of the provider.
+   * @param props - The props of the SDK, without the network, which is detected from the chain id of the provider.
+   * @param options
+   * @returns - an APWineSDK instance.
+   * @throws - UnsupportedNetworkError if the chain of the provider is neither built in nor registered.
+   */
+  static async fromProvider(
+    props: Omit<SDKProps, 'network'>,
+    options?: SDKOptions
+  ) {
+    const { chainId } = await props.provider.getNetwork()
+
+    props.networks?.forEach((networkConfig) => registerNetwork(networkConfig))
+
+    if (!isNetworkSupported(chainId)) {
+      throw new UnsupportedNetworkError(chainId)
+    }
+
+    return new APWineSDK(
+      { ...props, network: getNetworkByChainId(chainId) },
+      options
+    )
+  }
+
+  /**
+   * Wrap a provider into a MulticallProvider, with the multicall contract of the network if it has one.
+   * @throws - UnsupportedNetworkError for an unknown network.
+   */
+  private wrapProvider(provider: Provider, network: Network) {
+    const { MULTICALL_ADDRESS } = getNetworkConfig(network)
+
+    return new providers.MulticallProvider(
+      provider,
+      MULTICALL_ADDRESS ? { contract: MULTICALL_ADDRESS } : undefined
+    )
+  }
+
+  /**
+   * Register a network, e.g. a local fork or a new deployment. Networks are shared by every SDK instance.
+   * @param networkConfig - NetworkConfig, with the chain id, the name and the addresses of the deployment.
+   * @returns - either an error object, or the registered NetworkConfig.
+   */
+  registerNetwork(networkConfig: NetworkConfig) {
+    const result = registerNetwork(networkConfig)
+
+    if (this.throwOnError && isError(result)) {
+      throw result.error
     }
+
+    return result
   }
 
   /**
@@ -162,31 +367,98 @@ class APWineSDK {
       getControllerContract(this.signerOrProvider, this.network).then(
         (controller) => (this.Controller = controller)
       ),
-      this.signer?.getAddress().then((address) => (this.defaultUser = address))
+      this.signer?.getAddress().then((address) => (this.defaultUser = address)),
+      this.verifyNetwork()
     ])
 
     this.ready = ready
     return ready
   }
 
+  /**
+   * Check the network of the provider and the signer, and reject or warn on a mismatch, following sdk.networkMismatch.
+   */
+  private async verifyNetwork() {
+    const result = await checkNetwork(this.network, this.provider, this.signer)
+
+    if (!isError(result)) {
+      return
+    }
+
+    if (this.networkMismatch === 'error') {
+      throw result.error
+    }
+
+    console.warn(`Warning: ${result.error.message}`)
+  }
+
+  /**
+   * Check that the provider and the signer are connected to the network of the SDK instance.
+   * @returns - either an error object, or the chain id of the network.
+   */
+  async checkNetwork() {
+    return this.handleResult(
+      checkNetwork(this.network, this.provider, this.signer)
+    )
+  }
+
+  /**
+   * Follow the chain of the provider, e.g. an injected wallet switching chains, by updating the network of the SDK instance.
+   * Only providers following network changes, like a Web3Provider created with the 'any' network, emit them.
+   * Chains which are neither built in nor registered are reported, and the SDK instance stays on its network.
+   * The subscription is kept across network and provider updates, and replaced if called again.
+   * @returns - a Subscription, with its unsubscribe handle.
+   */
+  watchNetwork(): Subscription {
+    this.networkWatcher?.unsubscribe()
+
+    const provider = this.baseProvider
+    const onNetwork = (next: ChainNetwork, previous?: ChainNetwork | null) => {
+      if (!previous || next.chainId === getNetworkChainId(this.network)) {
+        return
+      }
+
+      if (!isNetworkSupported(next.chainId)) {
+        console.error(
+          `Error: ${new UnsupportedNetworkError(next.chainId).message}`
+        )
+        return
+      }
+
+      // A failed initialization is surfaced by sdk.ready.
+      this.updateNetwork(getNetworkByChainId(next.chainId)).catch(
+        () => undefined
+      )
+    }
+
+    provider.on('network', onNetwork)
+
+    this.networkWatcher = {
+      unsubscribe: () => {
+        provider.off('network', onNetwork)
+      }
+    }
+
+    return {
+      unsubscribe: () => {
+        this.networkWatcher?.unsubscribe()
+        this.networkWatcher = null
+      }
+    }
+  }
+
   /**
    * Switch to signer usage on the sdk instance.
    * This is necessary if transactions are to be executed.
    */
   useSigner() {
     if (!this.signer) {
-      console.error(
-        'Error: signer is not provider, please use `updateSigner` to add a singer instance.'
-      )
-
+      this.reportError('NoSigner')
       return
     }
 
     if (!this.Controller) {
-      console.error(
-        "Error: The Controller instance hasn't been loaded yet. Wait for sdk.ready"
-      )
-
+      this.reportError('NoController')
       return
     }
 
@@ -211,10 +483,7 @@ class APWineSDK {
    */
   useProvider() {
     if (!this.Controller) {
-      console.error(
-        "Error: The Controller instance hasn't been loaded yet. Wait for sdk.ready"
-      )
-
+      this.reportError('NoController')
       return
     }
 
@@ -233,6 +502,51 @@ class APWineSDK {
     )
   }
 
+  /**
+   * Resolve the result of an SDK function. In throwing mode, an error result is thrown instead.
+   * @param result - the result, or the promise of a result, of an SDK function.
+   * @returns - the result, if it is not an error, or throwing mode is off.
+   */
+  async handleResult<T>(result: T | Promise<T>) {
+    const resolved = await result
+
+    if (this.throwOnError && isError(resolved)) {
+      throw resolved.error
+    }
+
+    return resolved
+  }
+
+  /**
+   * Report an error of a method without a result. In throwing mode, the error is thrown instead.
+   * @param code - the code of the error.
+   */
+  reportError(code: Exclude<ErrorCode, 'ContractError'>) {
+    const { error: e } = error(code)
+
+    if (this.throwOnError) {
+      throw e
+    }
+
+    console.error(`Error: ${e.message}`)
+  }
+
+  /**
+   * Resolve the signer of a write method.
+   * When transactions are only populated or simulated, a VoidSigner of options.from (or the default user) is used, so a provider is enough.
+   * @param options
+   * @returns - a Signer, or null if there is none available.
+   */
+  getTransactionSigner(options: Options = {}) {
+    const from = options.from ?? this.defaultUser
+
+    if (isDryRun(options) && (options.from || !this.signer) && from) {
+      return new VoidSigner(from, this.provider)
+    }
+
+    return this.signer
+  }
+
   /**
    * Update default user on an existing APWineSDK instance.
    * @param address - The address of the new user.
@@ -243,23 +557,53 @@ class APWineSDK {
 
   /**
    * Updates the provider on an existing APWineSDK instance.
+   * Like in the constructor, the provider is wrapped into a MulticallProvider, and its network is checked.
    * @param provider - A provider to connect to the ethereum blockchain.
    * @param useWithContracts - 'Set this provider to sdk.signerOrProvider, and re-instantiate contract instances with it.'
+   * @returns - the network check, rejected on a mismatch when sdk.networkMismatch is 'error'.
    */
   updateProvider(provider: Provider, useWithContracts: boolean = false) {
-    this.provider = provider
+    this.baseProvider = provider
+    this.provider = this.wrapProvider(provider, this.network)
+
+    if (this.networkWatcher) {
+      this.watchNetwork()
+    }
 
     if (useWithContracts) {
       this.useProvider()
     }
+
+    return this.verifyNetwork()
   }
 
   /**
-   * Updates the network on an existing APWineSDK instance.
+   * Updates the network on an existing APWineSDK instance, and rebuilds its contract instances.
+   * The subscriptions of the previous network are stopped, and the Controller is fetched again.
    * @param network - The network on which the SDK instance operates
+   * @returns - the new sdk.ready promise.
+   * @throws - UnsupportedNetworkError for an unknown network.
    */
   updateNetwork(network: Network) {
+    const signer = this.signerOrProvider === this.signer ? this.signer : null
+
+    this.provider = this.wrapProvider(this.baseProvider, network)
     this.network = network
+    this.cache =
+      this.cache && scopeCache(this.cache, getNetworkChainId(network))
+    this.unsubscribeAll()
+
+    this.signerOrProvider = signer ?? this.provider
+
+    this.AMMRegistry = getAMMRegistryContract(
+      this.signerOrProvider,
+      this.network
+    )
+    this.Registry = getRegistryContract(this.signerOrProvider, this.network)
+    this.Router = getAMMRouterContract(this.signerOrProvider, this.network)
+    this.Controller = null
+
+    return this.initialize()
   }
 
   /**
@@ -289,7 +633,12 @@ class APWineSDK {
    * @returns - AMM contract instance.
    */
   async fetchAMM(future: FutureVault) {
-    return fetchAMM(this.signerOrProvider, this.network, future)
+    return fetchAMM(
+      this.signerOrProvider,
+      this.network,
+      future,
+      this.cache ?? undefined
+    )
   }
 
   /**
@@ -297,7 +646,11 @@ class APWineSDK {
    * @returns - Promise of an AMM collection.
    */
   async fetchAllAMMs() {
-    return fetchAllAMMs(this.signerOrProvider, this.network)
+    return fetchAllAMMs(
+      this.signerOrProvider,
+      this.network,
+      this.cache ?? undefined
+    )
   }
 
   /**
@@ -305,18 +658,88 @@ class APWineSDK {
    * @param spender - The contract/entity receiving approval for spend.
    * @param tokenAddress - The address of the token contract.
    * @param amount - The amount of tokens to be approved.
+   * @param options
    * @returns - an SDK returnType which contains a transaction and/or an error.
-   * @transaction -  requires a signer.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  async approve(
+    spender: string,
+    tokenAddress: string,
+    amount: Amount,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(
+      approve(signer, spender, tokenAddress, toBigNumber(amount), options)
+    )
+  }
+
+  /**
+   * Detect whether a token supports EIP-2612 permits.
+   * @param tokenAddress - The address of the token contract.
+   * @returns - a boolean value.
+   */
+  async isPermitSupported(tokenAddress: string) {
+    return isPermitSupported(
+      this.provider,
+      tokenAddress,
+      this.cache ?? undefined
+    )
+  }
+
+  /**
+   * Sign an EIP-2612 permit, to approve a spender without an approval transaction.
+   * The signature can be submitted by anyone, e.g. a relayer, with submitPermit.
+   * @param spender - The contract/entity receiving approval for spend.
+   * @param tokenAddress - The address of the token contract.
+   * @param amount - The amount of tokens to be approved.
+   * @param deadline - The expiry of the permit. Default is in an hour.
+   * @returns - a PermitSignature, an error if the token or the signer does not support permits, or a ContractError if the signature is rejected.
    */
-  async approve(spender: string, tokenAddress: string, amount: BigNumberish) {
+  async signPermit(
+    spender: string,
+    tokenAddress: string,
+    amount: Amount,
+    deadline?: Date
+  ) {
     if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(
+      signPermit(
+        this.signer,
+        tokenAddress,
+        spender,
+        toBigNumber(amount),
+        deadline
       )
-      return
+    )
+  }
+
+  /**
+   * Submit a signed permit, on behalf of its owner.
+   * @param signature - PermitSignature returned by signPermit.
+   * @param options
+   * @returns - an SDK returnType which contains a transaction and/or an error.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  async submitPermit(
+    signature: PermitSignature,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
     }
 
-    return approve(this.signer, spender, tokenAddress, amount)
+    return this.handleResult(submitPermit(signer, signature, options))
   }
 
   /**
@@ -336,6 +759,79 @@ class APWineSDK {
     )
   }
 
+  /**
+   * Fetch the symbol, name and decimals of a token.
+   * @param tokenAddress - The address of the token contract.
+   * @returns - TokenMetadata, which can be used to parse and format amounts.
+   */
+  async fetchTokenMetadata(tokenAddress: string) {
+    return fetchTokenMetadata(
+      this.provider,
+      this.network,
+      tokenAddress,
+      undefined,
+      this.cache ?? undefined
+    )
+  }
+
+  /**
+   * Fetch the metadata of the tokens of a future: IBT, Underlying, PT, FYT and the LP token of each pair.
+   * @param future - The target future vault.
+   * @returns - FutureTokens
+   */
+  async fetchFutureTokens(future: FutureVault) {
+    return fetchFutureTokens(
+      this.provider,
+      this.network,
+      future,
+      this.cache ?? undefined
+    )
+  }
+
+  /**
+   * Fetch the metadata of the tokens of the future of an AMM.
+   * @param amm - The target AMM.
+   * @returns - FutureTokens
+   */
+  async fetchAMMTokens(amm: AMM) {
+    return fetchAMMTokens(
+      this.provider,
+      this.network,
+      amm,
+      this.cache ?? undefined
+    )
+  }
+
+  /**
+   * Attach decimal-aware amounts to the result of an AMM, errors are returned as they are.
+   */
+  private async withTokenAmounts<T extends { amm: AMM }, R>(
+    result: Promise<T | Error>,
+    attach: (tokens: FutureTokens, value: T) => R
+  ): Promise<R | Error> {
+    const value = await result
+
+    return isError(value)
+      ? value
+      : attach(await this.fetchAMMTokens(value.amm), value)
+  }
+
+  /**
+   * Fetch the token balance of an account.
+   * @param tokenAddress - The address of the token contract.
+   * @param account - The token owner's wallet address. Default is sdk.defaultUser.
+   * @returns - The balance in TokenAmount.
+   */
+  async fetchTokenBalance(tokenAddress: string, account?: string) {
+    return fetchTokenBalance(
+      this.provider,
+      this.network,
+      tokenAddress,
+      account ?? this.defaultUser,
+      this.cache ?? undefined
+    )
+  }
+
   /**
    * Fetch an aggregated Future construct by future vault index.
    * @param index - The index of the future to be fetched.
@@ -345,7 +841,8 @@ class APWineSDK {
     return fetchFutureAggregateFromIndex(
       this.signerOrProvider,
       this.network,
-      index
+      index,
+      this.cache ?? undefined
     )
   }
 
@@ -359,16 +856,33 @@ class APWineSDK {
       this.signerOrProvider,
       this.network,
       futureAddress,
-      this.Controller
+      this.Controller,
+      this.cache ?? undefined
+    )
+  }
+
+  /**
+   * Fetch the history of an AMM, with one record for each of its periods.
+   * The timestamps and reserves of past periods are read from the period switches of the block range, with a provider of an archive node, and are null otherwise.
+   * @param amm - The target AMM.
+   * @param query - The block range of the period switches, e.g. from the deployment of the AMM, up to the latest block by default.
+   * @returns - A collection of periods, with timestamps, PT/FYT addresses, LP token ids and reserves.
+   */
+  async fetchAMMPeriods(amm: AMM, query?: Omit<HistoryQuery, 'account'>) {
+    return fetchAMMPeriods(
+      this.signerOrProvider,
+      this.network,
+      amm,
+      this.Controller,
+      query
     )
   }
 
   /**
-   * Fetch all aggregated Future constructs on an AMM.
-   * @returns - A collection of aggregated objects with future related data
+   * @deprecated - Use sdk.fetchAMMPeriods, which this method delegates to.
    */
   async fetchAllFutureAggregates(amm: AMM) {
-    return fetchAllFutureAggregates(this.signerOrProvider, this.network, amm)
+    return this.fetchAMMPeriods(amm)
   }
 
   /**
@@ -389,7 +903,7 @@ class APWineSDK {
    */
   async isApprovalNecessary(
     tokenAddress: string,
-    amount: BigNumberish,
+    amount: Amount,
     spender: string,
     account?: string
   ) {
@@ -398,7 +912,7 @@ class APWineSDK {
       account ?? this.defaultUser,
       spender,
       tokenAddress,
-      amount
+      toBigNumber(amount)
     )
   }
 
@@ -413,95 +927,376 @@ class APWineSDK {
   }
 
   /**
-   * Fetch all FYT contract instances.
-   * @returns - a collection of FYT token contract instances.
+   * Fetch the FYTs of every period of every future.
+   * @returns - a collection of FYTs, with their vault, period index, address, contract instance and token data.
    */
   async fetchAllFYTs() {
     return fetchFYTTokens(this.signerOrProvider, this.network)
   }
 
   /**
-   * Inspect LPToken approval status of an account.
-   * @param amm - The amm on which to check LPToken approval status.
-   * @param account - The user whose approval status is queried.
-   * @returns - a boolean value of the approval of this account for all LPs.
+   * Fetch the FYTs of every period of a future.
+   * @param future - The target future vault.
+   * @returns - a collection of FYTs, ordered by period index.
    */
-  async isLPApprovedForAll(amm: AMM, account?: string) {
-    return isLPApprovedForAll(this.provider, amm, account ?? this.defaultUser)
+  async fetchFYTsOfFuture(future: FutureVault) {
+    return fetchFYTTokensOfFuture(this.signerOrProvider, future)
   }
 
   /**
-   * Set LPToken approval status for an account.
-   * @param amm - The AMM on which the approval will happen.
-   * @param approval - Boolean value of the approval.
-   * @returns - an SDK returnType which contains a transaction and/or an error.
-   * @transaction -  requires a signer.
+   * Fetch the FYT address of a period of a future.
+   * @param future - The target future vault.
+   * @param periodIndex - The index of the period.
+   * @returns - The address of the FYT of that period.
    */
-  async approveLPForAll(amm: AMM, approval: boolean = true) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
-      )
-      return
-    }
-
-    return approveLPForAll(this.signer, amm, approval)
+  async fetchFYTAddress(future: FutureVault, periodIndex: BigNumberish) {
+    return fetchFYTAddressOfPeriod(future, periodIndex)
   }
 
   /**
-   * Fetch an aggregated construct of an LPTokenPool
-   * @param amm - The target AMM on which the tokenPool exists.
-   * @param pairId - The pair id of the token pair, 0 or 1.
-   * @param periodIndex - anything from 0 to the current period index. Default is the current period.
-   * @returns - An aggregated construct with LPTokenPool related data.
+   * Fetch the FYT amount an account can claim on a future.
+   * @param future - The target future vault.
+   * @param account - The account claiming the FYTs. Default is sdk.defaultUser.
+   * @param periodIndex - The index of the period. Default is the current period.
+   * @returns - The claimable amount, with the period and the FYT address, and the amount in TokenAmount.
    */
-  async fetchLPTokenPool(amm: AMM, pairId: PairId, periodIndex?: number) {
-    return fetchLPTokenPool(this.signerOrProvider, amm, pairId, periodIndex)
+  async fetchClaimableFYT(
+    future: FutureVault,
+    account?: string,
+    periodIndex?: BigNumberish
+  ) {
+    const [tokens, claimable] = await Promise.all([
+      this.fetchFutureTokens(future),
+      fetchClaimableFYT(future, account ?? this.defaultUser, periodIndex)
+    ])
+
+    return withClaimableFYTTokenAmounts(tokens, claimable)
   }
 
   /**
-   * Fetch an aggregated construct collection of all LPTokenPools.
-   * @param amm - Fetch all liquidity pools of an AMM.
-   * @returns - A collection of aggregated constructs with LPTokenPool related data.
+   * Fetch the FYT amounts an account can claim on every future, for the current periods.
+   * @param account - The account claiming the FYTs. Default is sdk.defaultUser.
+   * @returns - A collection of claimable amounts, one for each future, with the amounts in TokenAmount.
    */
-  async fetchAllLPTokenPools(amm: AMM) {
-    return fetchAllLPTokenPools(this.signerOrProvider, amm)
+  async fetchAllClaimableFYT(account?: string) {
+    const claimables = await fetchAllClaimableFYT(
+      this.provider,
+      this.network,
+      account ?? this.defaultUser
+    )
+
+    return Promise.all(
+      claimables.map(async (claimable) =>
+        withClaimableFYTTokenAmounts(
+          await this.fetchFutureTokens(claimable.future),
+          claimable
+        )
+      )
+    )
   }
 
   /**
-   * Add liqidity for the target AMM for a user.
-   * @param params - AddLiquidityParams
-   * @param Options
+   * Claim the FYTs of the current period of a future.
+   * @param future - The target future vault.
+   * @param amount - The amount to be claimed. Default is the whole claimable amount.
+   * @param options
    * @returns - an SDK returnType which contains a transaction and/or an error.
-   * @transaction -  requires a signer.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
    */
-  async addLiquidity(params: AddLiquidityParams, options?: Options) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
-      )
-      return
+  async claimFYT(
+    future: FutureVault,
+    amount?: Amount,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
     }
 
-    return addLiquidity({ signer: this.signer, ...params }, options)
+    return this.handleResult(
+      claimFYT(
+        signer,
+        future,
+        amount === undefined ? undefined : toBigNumber(amount),
+        options
+      )
+    )
   }
 
   /**
-   * Remove liquidity from the target AMM for a user.
-   * @param params - RemoveLiquidityParams
+   * Claim the FYTs of the current period on every future, where there is something to claim.
+   * @param options
+   * @returns - A collection of SDK returnTypes, one for each claim.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transactions.
+   */
+  async claimAllFYT(
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>[]> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return [await this.handleResult(error('NoSigner'))]
+    }
+
+    const results = await claimAllFYT(signer, this.network, options)
+
+    return Promise.all(results.map((result) => this.handleResult(result)))
+  }
+
+  /**
+   * Fetch the positions of an account which can be redeemed: FYTs of ended periods, and PTs of terminated futures.
+   * @param account - The owner of the positions. Default is sdk.defaultUser.
+   * @returns - A collection of positions, with the redeemable IBT and Underlying amounts.
+   */
+  async fetchRedeemablePositions(account?: string) {
+    return fetchRedeemablePositions(
+      this.provider,
+      this.network,
+      account ?? this.defaultUser,
+      this.Controller
+    )
+  }
+
+  /**
+   * Redeem a position: the yield of an ended period's FYT, or the funds of a terminated future.
+   * @param position - A position returned by sdk.fetchRedeemablePositions.
    * @param options
    * @returns - an SDK returnType which contains a transaction and/or an error.
-   * @transaction -  requires a signer.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
    */
-  async removeLiquidity(params: RemoveLiquidityParams, options?: Options) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
+  async redeem(
+    position: RedeemablePosition,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(
+      redeem(signer, this.network, position, this.Controller, options)
+    )
+  }
+
+  /**
+   * Redeem every redeemable position of an account.
+   * @param options
+   * @returns - A collection of SDK returnTypes, one for each redeemed position.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transactions.
+   */
+  async redeemAll(
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>[]> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return [await this.handleResult(error('NoSigner'))]
+    }
+
+    const results = await redeemAll(
+      signer,
+      this.network,
+      this.Controller,
+      options
+    )
+
+    return Promise.all(results.map((result) => this.handleResult(result)))
+  }
+
+  /**
+   * Inspect LPToken approval status of an account.
+   * @param amm - The amm on which to check LPToken approval status.
+   * @param account - The user whose approval status is queried.
+   * @returns - a boolean value of the approval of this account for all LPs.
+   */
+  async isLPApprovedForAll(amm: AMM, account?: string) {
+    return isLPApprovedForAll(this.provider, amm, account ?? this.defaultUser)
+  }
+
+  /**
+   * Set LPToken approval status for an account.
+   * @param amm - The AMM on which the approval will happen.
+   * @param approval - Boolean value of the approval.
+   * @param options
+   * @returns - an SDK returnType which contains a transaction and/or an error.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  async approveLPForAll(
+    amm: AMM,
+    approval: boolean = true,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(approveLPForAll(signer, amm, approval, options))
+  }
+
+  /**
+   * Fetch an aggregated construct of an LPTokenPool
+   * @param amm - The target AMM on which the tokenPool exists.
+   * @param pairId - The pair id of the token pair, 0 or 1.
+   * @param periodIndex - anything from 0 to the current period index. Default is the current period.
+   * @returns - An aggregated construct with LPTokenPool related data.
+   */
+  async fetchLPTokenPool(amm: AMM, pairId: PairId, periodIndex?: number) {
+    return fetchLPTokenPool(this.signerOrProvider, amm, pairId, periodIndex)
+  }
+
+  /**
+   * Fetch an aggregated construct collection of all LPTokenPools.
+   * @param amm - Fetch all liquidity pools of an AMM.
+   * @returns - A collection of aggregated constructs with LPTokenPool related data.
+   */
+  async fetchAllLPTokenPools(amm: AMM) {
+    return fetchAllLPTokenPools(this.signerOrProvider, amm)
+  }
+
+  /**
+   * Fetch the state of a pool of an AMM, for the current period.
+   * @param amm - The target AMM.
+   * @param pairId - The pair id of the token pair, 0 or 1.
+   * @returns - The reserves, weights, swap fee, LP supply and TVL in Underlying of the pool, with the amounts in TokenAmount.
+   */
+  async fetchPoolState(amm: AMM, pairId: PairId) {
+    const [tokens, state] = await Promise.all([
+      this.fetchAMMTokens(amm),
+      fetchPoolState(this.signerOrProvider, this.network, amm, pairId)
+    ])
+
+    return withPoolStateTokenAmounts(tokens, state)
+  }
+
+  /**
+   * Fetch the state of both pools of every AMM, for the current periods.
+   * @returns - A collection of PoolStates, two for each AMM, with the amounts in TokenAmount.
+   */
+  async fetchAllPoolStates() {
+    const states = await fetchAllPoolStates(
+      this.signerOrProvider,
+      this.network,
+      this.cache ?? undefined
+    )
+
+    return Promise.all(
+      states.map(async (state) =>
+        withPoolStateTokenAmounts(await this.fetchAMMTokens(state.amm), state)
       )
-      return
+    )
+  }
+
+  /**
+   * Quote a liquidity deposit, from the current reserves of the pool.
+   * @param params - AddLiquidityParams with optional slippageTolerance, where amount is the amount of LP tokens to mint.
+   * @returns - either an error object, or the token amounts required on each side and their bounds, also in TokenAmount.
+   */
+  async quoteAddLiquidity(
+    params: WithAmount<WithOptional<AddLiquidityParams, 'slippageTolerance'>>
+  ) {
+    return this.handleResult(
+      this.withTokenAmounts(
+        quoteAddLiquidity({
+          slippageTolerance: this.defaultSlippage,
+          signerOrProvider: this.provider,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        }),
+        withAddLiquidityQuoteTokenAmounts
+      )
+    )
+  }
+
+  /**
+   * Quote a liquidity withdrawal, from the current reserves of the pool.
+   * @param params - RemoveLiquidityParams with optional slippageTolerance, where amount is the amount of LP tokens to burn.
+   * @returns - either an error object, or the token amounts received on each side and their bounds, also in TokenAmount.
+   */
+  async quoteRemoveLiquidity(
+    params: WithAmount<WithOptional<RemoveLiquidityParams, 'slippageTolerance'>>
+  ) {
+    return this.handleResult(
+      this.withTokenAmounts(
+        quoteRemoveLiquidity({
+          slippageTolerance: this.defaultSlippage,
+          signerOrProvider: this.provider,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        }),
+        withRemoveLiquidityQuoteTokenAmounts
+      )
+    )
+  }
+
+  /**
+   * Add liqidity for the target AMM for a user.
+   * When maxAmountsIn is not passed, it is derived from the reserves and the slippage tolerance.
+   * @param params - AddLiquidityParams with optional slippageTolerance.
+   * @param Options
+   * @returns - an SDK returnType which contains a transaction and/or an error.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  async addLiquidity(
+    params: WithAmount<WithOptional<AddLiquidityParams, 'slippageTolerance'>>,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(
+      addLiquidity(
+        {
+          signer,
+          network: this.network,
+          cache: this.cache ?? undefined,
+          slippageTolerance: this.defaultSlippage,
+          ...params,
+          amount: toBigNumber(params.amount)
+        },
+        options
+      )
+    )
+  }
+
+  /**
+   * Remove liquidity from the target AMM for a user.
+   * When minAmountsOut is not passed, it is derived from the reserves and the slippage tolerance.
+   * @param params - RemoveLiquidityParams with optional slippageTolerance.
+   * @param options
+   * @returns - an SDK returnType which contains a transaction and/or an error.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  async removeLiquidity(
+    params: WithAmount<WithOptional<RemoveLiquidityParams, 'slippageTolerance'>>,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
     }
 
-    return removeLiquidity({ signer: this.signer, ...params }, options)
+    return this.handleResult(
+      removeLiquidity(
+        {
+          signer,
+          network: this.network,
+          slippageTolerance: this.defaultSlippage,
+          ...params,
+          amount: toBigNumber(params.amount)
+        },
+        options
+      )
+    )
   }
 
   /**
@@ -509,28 +1304,46 @@ class APWineSDK {
    * @param spender - The contract/entity for which the allowance will be updated.
    * @param tokenAddress - The address of the token contract.
    * @param amount - The amount of the allowance.
-   * @param options
+   * @param options - With autoApprove, a too low allowance is approved to the amount instead of being increased.
    * @returns - an SDK returnType which contains a transaction and/or an error.
-   * @transaction -  requires a signer.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
    */
   async updateAllowance(
     spender: string,
     tokenAddress: string,
-    amount: BigNumberish,
-    options = { autoApprove: false }
-  ) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
-      )
-      return
+    amount: Amount,
+    options: Options = { autoApprove: false }
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
     }
 
-    if (options.autoApprove) {
-      this.approve(spender, tokenAddress, amount)
+    if (options.autoApprove && !isDryRun(options)) {
+      const approval = await approveAndWait(
+        signer,
+        spender,
+        tokenAddress,
+        toBigNumber(amount),
+        { relayPermit: options.relayPermit }
+      )
+
+      // The approval already set the allowance to the amount.
+      if (isError(approval) || approval.transaction) {
+        return this.handleResult(approval)
+      }
     }
 
-    return updateAllowance(this.signer, spender, tokenAddress, amount)
+    return this.handleResult(
+      updateAllowance(
+        signer,
+        spender,
+        tokenAddress,
+        toBigNumber(amount),
+        options
+      )
+    )
   }
 
   /**
@@ -539,17 +1352,29 @@ class APWineSDK {
    * @param amount - The amount to be withdrawn.
    * @param options
    * @returns - an SDK returnType which contains a transaction and/or an error.
-   * @transaction -  requires a signer.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
    */
-  async withdraw(future: FutureVault, amount: BigNumberish) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
-      )
-      return
+  async withdraw(
+    future: FutureVault,
+    amount: Amount,
+    options: Options = {}
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
     }
 
-    return withdraw(this.signer, this.network, future, amount, this.Controller)
+    return this.handleResult(
+      withdraw(
+        signer,
+        this.network,
+        future,
+        toBigNumber(amount),
+        this.Controller,
+        options
+      )
+    )
   }
 
   /**
@@ -558,26 +1383,76 @@ class APWineSDK {
    * @param amount - The amount to be withdrawn.
    * @param options
    * @returns - an SDK returnType which contains a transaction and/or an error.
-   * @transaction -  requires a signer.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
    */
   async deposit(
     future: FutureVault,
-    amount: BigNumberish,
-    options = { autoApprove: false }
-  ) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
-      )
-      return
+    amount: Amount,
+    options: Options = { autoApprove: false }
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
     }
 
-    if (options.autoApprove && this.Controller) {
-      const ibtAddress = await future.getIBTAddress()
-      await this.approve(this.Controller.address, ibtAddress, amount)
+    if (options.autoApprove && !isDryRun(options) && this.Controller) {
+      const approval = await approveAndWait(
+        signer,
+        this.Controller.address,
+        await future.getIBTAddress(),
+        toBigNumber(amount),
+        { relayPermit: options.relayPermit }
+      )
+
+      if (isError(approval)) {
+        return this.handleResult(approval)
+      }
     }
 
-    return deposit(this.signer, this.network, future, amount, this.Controller)
+    return this.handleResult(
+      deposit(
+        signer,
+        this.network,
+        future,
+        toBigNumber(amount),
+        this.Controller,
+        options
+      )
+    )
+  }
+
+  /**
+   * Fetch the positions of an account on every future, with balances and an Underlying valuation.
+   * @param account - The owner of the positions. Default is sdk.defaultUser.
+   * @returns - A collection of positions, one for each future, with the balances and values in TokenAmount.
+   */
+  async fetchPortfolio(account?: string) {
+    const portfolio = await fetchPortfolio(
+      this.provider,
+      this.network,
+      account ?? this.defaultUser
+    )
+
+    return Promise.all(
+      portfolio.map(async (position) =>
+        withFuturePositionTokenAmounts(
+          await this.fetchFutureTokens(position.vault),
+          position
+        )
+      )
+    )
+  }
+
+  /**
+   * Fetch the implied rates of a future: the fixed APR/APY of PT, and the implied yield of FYT.
+   * @param future - The target FutureVault, or an already fetched FutureAggregate.
+   * @returns - either an error object, or FutureRates with percentages and the time to maturity.
+   */
+  async fetchFutureRates(future: FutureVault | FutureAggregate) {
+    return this.handleResult(
+      fetchFutureRates(this.provider, this.network, future, this.Controller)
+    )
   }
 
   /**
@@ -588,7 +1463,36 @@ class APWineSDK {
    * @returns - spot price in BigNumber format.
    */
   fetchSpotPrice(future: FutureVault, from: APWToken, to: APWToken) {
-    return fetchSpotPrice(this.provider, this.network, future, from, to)
+    return this.handleResult(
+      fetchSpotPrice(this.provider, this.network, future, from, to)
+    )
+  }
+
+  /**
+   * Find the largest swap within a limit, e.g. "how much Underlying can be swapped into PT before the fixed APY drops below 5%".
+   * @param amm - The target AMM.
+   * @param from - APWToken: PT, Underlying or FYT.
+   * @param to - APWToken: PT, Underlying or FYT.
+   * @param limit - TradeLimit: a price impact cap, a target spot price of `to` in `from`, or a target fixed APY.
+   * @returns - either an error object, or the LocalSwapQuote of the largest amount in.
+   */
+  async fetchMaxTradeSize(
+    amm: AMM,
+    from: APWToken,
+    to: APWToken,
+    limit: TradeLimit
+  ) {
+    return this.handleResult(
+      fetchMaxTradeSize(
+        this.provider,
+        this.network,
+        amm,
+        from,
+        to,
+        limit,
+        this.Controller
+      )
+    )
   }
 
   /**
@@ -596,59 +1500,618 @@ class APWineSDK {
    * @param params - SwapParams with optional slippageTolerance.
    * @param options
    * @returns - either an error object, or a ContractTransaction
-   * @transaction -  requires a signer.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
    */
   async swapIn(
-    params: WithOptional<SwapParams, 'slippageTolerance'>,
+    params: WithAmount<WithOptional<SwapParams, 'slippageTolerance'>>,
+    options: Options = { autoApprove: false }
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(
+      swap(
+        'IN',
+        {
+          slippageTolerance: this.defaultSlippage,
+          signer,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        },
+        options
+      )
+    )
+  }
+
+  /**
+   * Swap by controlling the exact amount of tokens coming out.
+   * @param params - SwapParams with optional slippageTolerance.
+   * @param options
+   * @returns - either an error object, or a ContractTransaction
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  async swapOut(
+    params: WithAmount<WithOptional<SwapParams, 'slippageTolerance'>>,
+    options: Options = { autoApprove: false }
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(
+      swap(
+        'OUT',
+        {
+          slippageTolerance: this.defaultSlippage,
+          signer,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        },
+        options
+      )
+    )
+  }
+
+  /**
+   * Quote a swap with an exact amount of tokens passed in, without executing it.
+   * @param params - SwapParams with optional slippageTolerance.
+   * @returns - either an error object, or a SwapQuote with its amounts in TokenAmount, which can be executed with sdk.executeSwapQuote.
+   */
+  async quoteSwapIn(
+    params: WithAmount<WithOptional<SwapParams, 'slippageTolerance'>>
+  ) {
+    return this.handleResult(
+      this.withTokenAmounts(
+        quoteSwap('IN', {
+          slippageTolerance: this.defaultSlippage,
+          signerOrProvider: this.provider,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        }),
+        withSwapQuoteTokenAmounts
+      )
+    )
+  }
+
+  /**
+   * Quote a swap with an exact amount of tokens coming out, without executing it.
+   * @param params - SwapParams with optional slippageTolerance.
+   * @returns - either an error object, or a SwapQuote with its amounts in TokenAmount, which can be executed with sdk.executeSwapQuote.
+   */
+  async quoteSwapOut(
+    params: WithAmount<WithOptional<SwapParams, 'slippageTolerance'>>
+  ) {
+    return this.handleResult(
+      this.withTokenAmounts(
+        quoteSwap('OUT', {
+          slippageTolerance: this.defaultSlippage,
+          signerOrProvider: this.provider,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        }),
+        withSwapQuoteTokenAmounts
+      )
+    )
+  }
+
+  /**
+   * Execute a previously fetched swap quote, with its amounts and deadline.
+   * @param quote - SwapQuote returned by sdk.quoteSwapIn or sdk.quoteSwapOut.
+   * @param options
+   * @returns - either an error object, or a ContractTransaction
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  async executeSwapQuote(
+    quote: SwapQuote,
     options: Options = { autoApprove: false }
+  ): Promise<SDKFunctionReturnType<Transaction>> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return this.handleResult(error('NoSigner'))
+    }
+
+    return this.handleResult(
+      executeSwap(signer, this.network, quote, options)
+    )
+  }
+
+  /**
+   * Quote providing liquidity to a pool from a single token, with the quote of every leg.
+   * @param params - ZapInParams with optional slippageTolerance. The token can be PT, Underlying, FYT or IBT.
+   * @returns - either an error object, or a ZapQuote with its amounts in TokenAmount, which can be executed with sdk.executeZapQuote.
+   */
+  async quoteZapIn(
+    params: WithAmount<WithOptional<ZapInParams, 'slippageTolerance'>>
   ) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
+    return this.handleResult(
+      this.withTokenAmounts(
+        quoteZapIn({
+          slippageTolerance: this.defaultSlippage,
+          signerOrProvider: this.provider,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        }),
+        withZapQuoteTokenAmounts
       )
-      return
+    )
+  }
+
+  /**
+   * Quote removing liquidity from a pool into a single token, with the quote of every leg.
+   * @param params - ZapOutParams with optional slippageTolerance, where amount is the amount of LP tokens to burn.
+   * @returns - either an error object, or a ZapQuote with its amounts in TokenAmount, which can be executed with sdk.executeZapQuote.
+   */
+  async quoteZapOut(
+    params: WithAmount<WithOptional<ZapOutParams, 'slippageTolerance'>>
+  ) {
+    return this.handleResult(
+      this.withTokenAmounts(
+        quoteZapOut({
+          slippageTolerance: this.defaultSlippage,
+          signerOrProvider: this.provider,
+          network: this.network,
+          ...params,
+          amount: toBigNumber(params.amount)
+        }),
+        withZapQuoteTokenAmounts
+      )
+    )
+  }
+
+  /**
+   * Execute the legs of a previously fetched zap quote, one after the other.
+   * @param quote - ZapQuote returned by sdk.quoteZapIn or sdk.quoteZapOut.
+   * @param options
+   * @returns - A collection of SDK returnTypes, one for each executed leg.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transactions.
+   */
+  async executeZapQuote(
+    quote: ZapQuote,
+    options: Options = { autoApprove: false }
+  ): Promise<SDKFunctionReturnType<Transaction>[]> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return [await this.handleResult(error('NoSigner'))]
     }
 
-    return swap(
-      'IN',
+    const results = await executeZap(
+      signer,
+      this.network,
+      quote,
+      this.Controller,
+      options
+    )
+
+    return Promise.all(results.map((result) => this.handleResult(result)))
+  }
+
+  /**
+   * Provide liquidity to a pool from a single token.
+   * @param params - ZapInParams with optional slippageTolerance. The token can be PT, Underlying, FYT or IBT.
+   * @param options
+   * @returns - A collection of SDK returnTypes, one for each executed leg.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transactions.
+   */
+  async zapIn(
+    params: WithAmount<WithOptional<ZapInParams, 'slippageTolerance'>>,
+    options: Options = { autoApprove: false }
+  ): Promise<SDKFunctionReturnType<Transaction>[]> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return [await this.handleResult(error('NoSigner'))]
+    }
+
+    const results = await zapIn(
       {
         slippageTolerance: this.defaultSlippage,
-        signer: this.signer,
+        signer,
         network: this.network,
-        ...params
+        ...params,
+        amount: toBigNumber(params.amount)
       },
+      this.Controller,
       options
     )
+
+    return Promise.all(results.map((result) => this.handleResult(result)))
   }
 
   /**
-   * Swap by controlling the exact amount of tokens coming out.
-   * @param params - SwapParams with optional slippageTolerance.
+   * Remove liquidity from a pool into a single token.
+   * @param params - ZapOutParams with optional slippageTolerance, where amount is the amount of LP tokens to burn.
    * @param options
-   * @returns - either an error object, or a ContractTransaction
-   * @transaction -  requires a signer.
+   * @returns - A collection of SDK returnTypes, one for each executed leg.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transactions.
    */
-  async swapOut(
-    params: WithOptional<SwapParams, 'slippageTolerance'>,
+  async zapOut(
+    params: WithAmount<WithOptional<ZapOutParams, 'slippageTolerance'>>,
     options: Options = { autoApprove: false }
-  ) {
-    if (!this.signer) {
-      console.error(
-        'Error: This is a transaction, you need to have a signer defined. Use sdk.updateSigner() to proceed.'
-      )
-      return
+  ): Promise<SDKFunctionReturnType<Transaction>[]> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return [await this.handleResult(error('NoSigner'))]
     }
 
-    return swap(
-      'OUT',
+    const results = await zapOut(
       {
         slippageTolerance: this.defaultSlippage,
-        signer: this.signer,
+        signer,
         network: this.network,
-        ...params
+        ...params,
+        amount: toBigNumber(params.amount)
       },
       options
     )
+
+    return Promise.all(results.map((result) => this.handleResult(result)))
+  }
+
+  /**
+   * Fetch the history of a future: deposits, withdrawals, swaps, liquidity changes and FYT claims.
+   * @param future - The target future vault.
+   * @param query - The account to filter on (default is every account), and the block range, up to the latest block by default.
+   * @returns - A collection of HistoryRecords, ordered by block and log index.
+   */
+  async fetchFutureHistory(future: FutureVault, query: HistoryQuery) {
+    return fetchFutureHistory(this.provider, this.network, future, query)
+  }
+
+  /**
+   * Fetch the history of an account on every future.
+   * @param query - The target account (default is sdk.defaultUser), and the block range, up to the latest block by default.
+   * @returns - A collection of HistoryRecords, ordered by block and log index.
+   */
+  async fetchUserHistory({ account, ...query }: HistoryQuery) {
+    return fetchUserHistory(
+      this.provider,
+      this.network,
+      account ?? this.defaultUser,
+      query
+    )
+  }
+
+  /**
+   * Fetch the PnL of an account on every future, in Underlying: cost basis, realised and unrealised PnL of its PT, FYT and LP tokens, and accrued yield.
+   * Events are valued at their block, which needs a provider of an archive node.
+   * @param query - The owner of the positions (default is sdk.defaultUser), and the block range of the history, up to the latest block by default.
+   * @returns - PnLReport
+   */
+  async fetchPnL({ account, ...query }: HistoryQuery) {
+    return fetchPnL(
+      this.provider,
+      this.network,
+      account ?? this.defaultUser,
+      query,
+      this.Controller
+    )
+  }
+
+  /**
+   * Compute a PnL offline, from history records and the current prices and balances of each future.
+   * @param records - HistoryRecords returned by sdk.fetchUserHistory.
+   * @param positions - The current prices, balances and accrued yield of each future.
+   * @param eventValues - The PnLEventValues of deposits, withdrawals and liquidity changes at their block, by getHistoryRecordKey.
+   * @returns - PnLReport
+   */
+  computePnL(
+    records: HistoryRecord[],
+    positions: PnLPositionInput[],
+    eventValues: Record<string, PnLEventValue> = {}
+  ) {
+    return computePnL(records, positions, eventValues)
+  }
+
+  /**
+   * Plan a swap quote: the approval of the router, then the swap.
+   * @param quote - SwapQuote returned by sdk.quoteSwapIn or sdk.quoteSwapOut.
+   * @param deadline - The deadline of the swap. Default is a minute after the swap is sent.
+   * @returns - either an error object, or a Plan, which can be executed with sdk.executePlan.
+   */
+  async planSwap(quote: SwapQuote, deadline?: Date) {
+    return this.handleResult(planSwap(this.network, quote, deadline))
+  }
+
+  /**
+   * Plan a deposit in a future: the approval of the Controller, then the deposit.
+   * @param future - The target future vault.
+   * @param amount - The amount of IBT to deposit.
+   * @returns - a Plan, which can be executed with sdk.executePlan.
+   */
+  async planDeposit(future: FutureVault, amount: Amount) {
+    return planDeposit(
+      this.provider,
+      this.network,
+      future,
+      toBigNumber(amount),
+      this.Controller
+    )
+  }
+
+  /**
+   * Plan adding liquidity: the approvals of both pool tokens, then the deposit of liquidity.
+   * @param params - AddLiquidityParams with optional slippageTolerance.
+   * @returns - either an error object, or a Plan, which can be executed with sdk.executePlan.
+   */
+  async planAddLiquidity(
+    params: WithAmount<WithOptional<AddLiquidityParams, 'slippageTolerance'>>
+  ) {
+    return this.handleResult(
+      planAddLiquidity(this.provider, this.network, {
+        slippageTolerance: this.defaultSlippage,
+        ...params,
+        amount: toBigNumber(params.amount)
+      })
+    )
+  }
+
+  /**
+   * Plan removing liquidity: the approval of the LP tokens, then the withdrawal of liquidity.
+   * @param params - RemoveLiquidityParams with optional slippageTolerance.
+   * @returns - a Plan, which can be executed with sdk.executePlan.
+   */
+  planRemoveLiquidity(
+    params: WithAmount<WithOptional<RemoveLiquidityParams, 'slippageTolerance'>>
+  ) {
+    return planRemoveLiquidity(this.network, {
+      slippageTolerance: this.defaultSlippage,
+      ...params,
+      amount: toBigNumber(params.amount)
+    })
+  }
+
+  /**
+   * Plan every leg of a zap quote, with their approvals.
+   * @param quote - ZapQuote returned by sdk.quoteZapIn or sdk.quoteZapOut.
+   * @param deadline - The deadline of every swap. Default is a minute after each swap is sent.
+   * @returns - either an error object, or a Plan, which can be executed with sdk.executePlan.
+   */
+  async planZap(quote: ZapQuote, deadline?: Date) {
+    return this.handleResult(
+      planZap(this.provider, this.network, quote, this.Controller, deadline)
+    )
+  }
+
+  /**
+   * Execute the steps of a plan one after the other, waiting for each transaction to be mined.
+   * A failed execution can be resumed with planOptions.fromStep set to its nextStep.
+   * @param plan - A Plan, returned by one of the sdk.plan methods.
+   * @param planOptions - The step to start from, the confirmations to wait for, and a progress callback.
+   * @param options
+   * @returns - PlanExecution, with the result of every executed step.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transactions.
+   */
+  async executePlan(
+    plan: Plan,
+    planOptions: PlanExecutionOptions = {},
+    options: Options = {}
+  ): Promise<PlanExecution> {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      return {
+        results: [await this.handleResult(error('NoSigner'))],
+        completed: false,
+        nextStep: planOptions.fromStep ?? 0
+      }
+    }
+
+    const execution = await executePlan(signer, plan, planOptions, options)
+
+    return {
+      ...execution,
+      results: await Promise.all(
+        execution.results.map((result) => this.handleResult(result))
+      )
+    }
+  }
+
+  /**
+   * Keep track of a subscription, until it is unsubscribed.
+   */
+  private trackSubscription(subscription: Subscription): Subscription {
+    this.subscriptions.add(subscription)
+
+    return {
+      unsubscribe: () => {
+        subscription.unsubscribe()
+        this.subscriptions.delete(subscription)
+      }
+    }
+  }
+
+  /**
+   * Subscribe to the spot prices of an AMM pair, refetched on new blocks.
+   * @param amm - The target AMM.
+   * @param pairId - The target pair.
+   * @param listener - Called with the price of each pool token in the other one, every time they change.
+   * @param options - The debounce delay in milliseconds, and an error callback.
+   * @returns - a Subscription, with its unsubscribe handle.
+   */
+  subscribeSpotPrices(
+    amm: AMM,
+    pairId: PairId,
+    listener: (prices: PairSpotPrices) => void,
+    options: SubscriptionOptions<PairSpotPrices> = {}
+  ) {
+    return this.trackSubscription(
+      subscribeSpotPrices(
+        this.provider,
+        this.network,
+        amm,
+        pairId,
+        listener,
+        options
+      )
+    )
+  }
+
+  /**
+   * Subscribe to the token balance of an account, refetched on new blocks.
+   * @param tokenAddress - The address of the token contract.
+   * @param listener - Called with the balance, every time it changes.
+   * @param account - The token owner's wallet address. Default is sdk.defaultUser.
+   * @param options - The debounce delay in milliseconds, and an error callback.
+   * @returns - a Subscription, with its unsubscribe handle.
+   */
+  subscribeBalance(
+    tokenAddress: string,
+    listener: (balance: BigNumber) => void,
+    account?: string,
+    options: SubscriptionOptions<BigNumber> = {}
+  ) {
+    return this.trackSubscription(
+      subscribeBalance(
+        this.provider,
+        tokenAddress,
+        account ?? this.defaultUser,
+        listener,
+        options
+      )
+    )
+  }
+
+  /**
+   * Subscribe to the allowance of a spender on the tokens of an account, refetched on new blocks.
+   * @param spender - The contract/entity to which the allowance is set.
+   * @param tokenAddress - The address of the token contract.
+   * @param listener - Called with the allowance in TokenAmount, every time it changes.
+   * @param account - The token owner's wallet address. Default is sdk.defaultUser.
+   * @param options - The debounce delay in milliseconds, and an error callback.
+   * @returns - a Subscription, with its unsubscribe handle.
+   */
+  subscribeAllowance(
+    spender: string,
+    tokenAddress: string,
+    listener: (allowance: TokenAmount) => void,
+    account?: string,
+    options: SubscriptionOptions<TokenAmount> = {}
+  ) {
+    return this.trackSubscription(
+      subscribeAllowance(
+        this.provider,
+        this.network,
+        account ?? this.defaultUser,
+        spender,
+        tokenAddress,
+        listener,
+        options
+      )
+    )
+  }
+
+  /**
+   * Subscribe to the period of a future, refetched on new blocks.
+   * @param future - The target future vault.
+   * @param listener - Called with the period index and the start of the next period, every time they change. Asynchronous listeners are awaited.
+   * @param options - The debounce delay in milliseconds, and an error callback, which also receives the failures of the cache sync and of the listener.
+   * @returns - a Subscription, with its unsubscribe handle.
+   */
+  subscribePeriod(
+    future: FutureVault,
+    listener: (period: PeriodUpdate) => void | Promise<void>,
+    options: SubscriptionOptions<PeriodUpdate> = {}
+  ) {
+    return this.trackSubscription(
+      subscribePeriod(
+        this.provider,
+        this.network,
+        future,
+        async (period) => {
+          if (this.cache) {
+            const amm = await this.fetchAMM(future)
+
+            await syncPeriodCache(
+              this.cache,
+              future.address,
+              amm.address,
+              period.periodIndex
+            )
+          }
+
+          return listener(period)
+        },
+        options,
+        this.Controller
+      )
+    )
+  }
+
+  /**
+   * Watch a conditional order, e.g. "swap FYT to PT when the spot price reaches P" or "buy PT when the fixed APY is above R%".
+   * The condition is evaluated on new blocks, and the swap is executed once it is met and its price impact is below the max slippage.
+   * With options.populate, the order is Ready with a transaction to sign instead.
+   * @param order - ConditionalOrder with an optional maxSlippage, default is sdk.defaultSlippage.
+   * @param listener - Called with the observed value while Pending, then once the order is Executed, Ready, Expired or Failed.
+   * @param options - The transaction options of the swap, the debounce delay in milliseconds, and an error callback.
+   * @returns - a Subscription, whose unsubscribe handle cancels the order.
+   * @transaction -  requires a signer, or options.populate with options.from to only build the transaction.
+   */
+  watchOrder(
+    order: WithOptional<ConditionalOrder, 'maxSlippage'>,
+    listener: (update: OrderUpdate) => void,
+    options: WatchOrderOptions = {}
+  ): Subscription {
+    const signer = this.getTransactionSigner(options)
+
+    if (!signer) {
+      this.reportError('NoSigner')
+      return { unsubscribe: () => undefined }
+    }
+
+    const subscription = this.trackSubscription(
+      watchOrder(
+        signer,
+        this.provider,
+        this.network,
+        { maxSlippage: this.defaultSlippage, ...order },
+        (update) => {
+          if (update.status !== 'Pending') {
+            subscription.unsubscribe()
+          }
+
+          listener(update)
+        },
+        options,
+        this.Controller
+      )
+    )
+
+    return subscription
+  }
+
+  /**
+   * Remove the cached data of the current period of a future, like the FYT address of its AMM.
+   * The cache is also invalidated when a new period is detected by sdk.fetchFutureAggregateFromAddress or sdk.subscribePeriod.
+   * @param future - The target future vault.
+   */
+  async invalidatePeriodCache(future: FutureVault) {
+    if (this.cache) {
+      const amm = await this.fetchAMM(future)
+
+      await invalidatePeriodCache(this.cache, [future.address, amm.address])
+    }
+  }
+
+  /**
+   * Stop every subscription of the SDK instance, e.g. before switching providers.
+   */
+  unsubscribeAll() {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe())
+    this.subscriptions.clear()
   }
 }
 
@@ -0,0 +1,202 @@
+import { AMM } from '@apwine/amm'
+import { Controller } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, BigNumberish, Signer } from 'ethers'
+import { getControllerContract, getFutureVaultContract } from './contracts'
+import { fetchPoolState } from './lp'
+import { getFixedAPY, getTimeToMaturity, priceToNumber } from './rates'
+import {
+  APWToken,
+  Error,
+  LocalSwapQuote,
+  Network,
+  PairId,
+  PoolSnapshot,
+  TradeLimit
+} from './types'
+import { error, isError } from './utils/general'
+import { bdiv, bmul, BONE, MAX_IN_RATIO, quoteSwapFromPools } from './utils/math'
+import { findSwapPath } from './utils/swap'
+
+/**
+ * Binary search the largest amount in of a swap whose quote is within a limit.
+ * Price impact and spot price after the trade grow with the amount in, so the limit is crossed only once.
+ * @param poolStates - the PoolStates of both pairs of the AMM.
+ * @param from - APWToken, PT, Underlying or FYT.
+ * @param to - APWToken, PT, Underlying or FYT.
+ * @param isWithinLimit - whether the quote of an amount in is acceptable.
+ * @param precision - the search stops once the bounds are closer than this amount. Default is a billionth of the largest trade.
+ * @returns - the LocalSwapQuote of the largest amount in, which is zero if no trade is within the limit, or an error.
+ */
+export const findMaxTradeSize = (
+  poolStates: Record<PairId, PoolSnapshot>,
+  from: APWToken,
+  to: APWToken,
+  isWithinLimit: (quote: LocalSwapQuote) => boolean,
+  precision?: BigNumberish
+): LocalSwapQuote | Error => {
+  const { poolPath, tokenPath } = findSwapPath(from, to)
+
+  if (!poolPath || !tokenPath) {
+    return error('InvalidSwapRoute')
+  }
+
+  const quote = (amount: BigNumber) =>
+    quoteSwapFromPools(poolStates, 'IN', from, to, amount)
+
+  let best = quote(BigNumber.from(0))
+
+  if (isError(best) || !isWithinLimit(best)) {
+    return best
+  }
+
+  // No trade can bring in more than the max in ratio of the first pool.
+  const firstPool = poolStates[poolPath[0] as PairId]
+  let low = BigNumber.from(0)
+  let high = bmul(firstPool.reserves[tokenPath[0]], MAX_IN_RATIO)
+  const step = BigNumber.from(precision ?? high.div(10 ** 9)).add(1)
+
+  while (high.sub(low).gt(step)) {
+    const middle = low.add(high).div(2)
+    const middleQuote = quote(middle)
+
+    if (!isError(middleQuote) && isWithinLimit(middleQuote)) {
+      low = middle
+      best = middleQuote
+    } else {
+      high = middle
+    }
+  }
+
+  return best
+}
+
+/**
+ * Find the largest swap whose price impact is below a cap.
+ * @param poolStates - the PoolStates of both pairs of the AMM.
+ * @param from - APWToken, PT, Underlying or FYT.
+ * @param to - APWToken, PT, Underlying or FYT.
+ * @param maxPriceImpact - the price impact cap, as a percentage.
+ * @returns - the LocalSwapQuote of the largest amount in, or an error.
+ */
+export const findMaxTradeForPriceImpact = (
+  poolStates: Record<PairId, PoolSnapshot>,
+  from: APWToken,
+  to: APWToken,
+  maxPriceImpact: number
+) =>
+  findMaxTradeSize(
+    poolStates,
+    from,
+    to,
+    ({ priceImpact }) => priceImpact <= maxPriceImpact
+  )
+
+/**
+ * Find the largest swap which keeps the spot price of the route below a target.
+ * @param poolStates - the PoolStates of both pairs of the AMM.
+ * @param from - APWToken, PT, Underlying or FYT.
+ * @param to - APWToken, PT, Underlying or FYT.
+ * @param spotPrice - the target price of the `to` token in `from` tokens, with 18 decimals.
+ * @returns - the LocalSwapQuote of the largest amount in, or an error.
+ */
+export const findMaxTradeForSpotPrice = (
+  poolStates: Record<PairId, PoolSnapshot>,
+  from: APWToken,
+  to: APWToken,
+  spotPrice: BigNumberish
+) =>
+  findMaxTradeSize(poolStates, from, to, ({ spotPriceAfter }) =>
+    spotPriceAfter.lte(spotPrice)
+  )
+
+/**
+ * Find the largest swap between Underlying and PT which keeps the fixed APY on the right side of a target.
+ * Buying PT lowers the fixed APY, so it must stay above the target. Selling PT raises it, so it must stay below.
+ * @param poolStates - the PoolStates of both pairs of the AMM.
+ * @param from - Underlying to buy PT, or PT to sell it.
+ * @param to - PT to buy it, or Underlying to sell it.
+ * @param fixedAPY - the target fixed APY, as a percentage.
+ * @param nextPeriodTimestamp - the start of the next period, in seconds.
+ * @param now - the current time, in seconds.
+ * @returns - the LocalSwapQuote of the largest amount in, or an error if the route does not trade PT for Underlying.
+ */
+export const findMaxTradeForFixedAPY = (
+  poolStates: Record<PairId, PoolSnapshot>,
+  from: APWToken,
+  to: APWToken,
+  fixedAPY: number,
+  nextPeriodTimestamp: BigNumberish,
+  now?: number
+) => {
+  const buysPT = from === 'Underlying' && to === 'PT'
+
+  if (!buysPT && !(from === 'PT' && to === 'Underlying')) {
+    return error('InvalidSwapRoute')
+  }
+
+  const timeToMaturity = getTimeToMaturity(nextPeriodTimestamp, now)
+
+  return findMaxTradeSize(poolStates, from, to, ({ spotPriceAfter }) => {
+    const ptPrice = buysPT ? spotPriceAfter : bdiv(BONE, spotPriceAfter)
+    const apy = getFixedAPY(priceToNumber(ptPrice), timeToMaturity)
+
+    return buysPT ? apy >= fixedAPY : apy <= fixedAPY
+  })
+}
+
+/**
+ * Fetch the pools of an AMM, and find the largest swap within a limit.
+ * @param signerOrProvider
+ * @param network - The network of the AMM.
+ * @param amm - The target AMM.
+ * @param from - APWToken, PT, Underlying or FYT.
+ * @param to - APWToken, PT, Underlying or FYT.
+ * @param limit - TradeLimit, a price impact cap, a target spot price or a target fixed APY.
+ * @param controller - The Controller instance, fetched if needed and not passed.
+ * @returns - the LocalSwapQuote of the largest amount in, or an error.
+ */
+export const fetchMaxTradeSize = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  amm: AMM,
+  from: APWToken,
+  to: APWToken,
+  limit: TradeLimit,
+  controller?: Controller | null
+) => {
+  const [pool0, pool1] = await Promise.all([
+    fetchPoolState(signerOrProvider, network, amm, 0),
+    fetchPoolState(signerOrProvider, network, amm, 1)
+  ])
+  const poolStates = { 0: pool0, 1: pool1 }
+
+  if ('maxPriceImpact' in limit) {
+    return findMaxTradeForPriceImpact(
+      poolStates,
+      from,
+      to,
+      limit.maxPriceImpact
+    )
+  }
+
+  if ('spotPrice' in limit) {
+    return findMaxTradeForSpotPrice(poolStates, from, to, limit.spotPrice)
+  }
+
+  const future = getFutureVaultContract(
+    signerOrProvider,
+    await amm.getFutureAddress()
+  )
+  const nextPeriodTimestamp = await (
+    controller ?? (await getControllerContract(signerOrProvider, network))
+  ).getNextPeriodStart(await future.PERIOD_DURATION())
+
+  return findMaxTradeForFixedAPY(
+    poolStates,
+    from,
+    to,
+    limit.fixedAPY,
+    nextPeriodTimestamp
+  )
+}
@@ -0,0 +1,248 @@
+import { AMM } from '@apwine/amm'
+import { Controller, FutureVault } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { TokenAmount } from '@uniswap/sdk'
+import { BigNumber } from 'ethers'
+import {
+  getAMMRouterContract,
+  getControllerContract,
+  getTokenContract
+} from './contracts'
+import { fetchAllowance } from './futures'
+import {
+  Error,
+  Network,
+  PairId,
+  PairSpotPrices,
+  PeriodUpdate,
+  Subscription,
+  SubscriptionOptions
+} from './types'
+import { isError } from './utils/general'
+
+/**
+ * The delay after the last block of a burst before refetching, in milliseconds.
+ */
+export const DEFAULT_SUBSCRIPTION_DEBOUNCE = 500
+
+const isSameValue = (previous: unknown, next: unknown) =>
+  BigNumber.isBigNumber(previous) && BigNumber.isBigNumber(next)
+    ? previous.eq(next)
+    : previous === next
+
+/**
+ * Subscribe to a value, refetched on every new block.
+ * Blocks are debounced so that a burst of blocks triggers a single fetch, and fetches never overlap.
+ * @param provider - The provider emitting the blocks.
+ * @param fetchValue - Fetch the current value, errors are passed to options.onError.
+ * @param listener - Called with the first value, then every time it changes. Asynchronous listeners are awaited, and their errors passed to options.onError.
+ * @param options - The debounce delay, the comparison of values, and an error callback.
+ * @returns - a Subscription, with its unsubscribe handle.
+ */
+export const subscribe = <T>(
+  provider: Provider,
+  fetchValue: () => Promise<T | Error>,
+  listener: (value: T) => void | Promise<void>,
+  options: SubscriptionOptions<T> = {}
+): Subscription => {
+  const {
+    debounce = DEFAULT_SUBSCRIPTION_DEBOUNCE,
+    isEqual = isSameValue,
+    onError
+  } = options
+
+  let active = true
+  let fetching = false
+  let pending = false
+  let timeout: ReturnType<typeof setTimeout> | undefined
+  let current: { value: T } | undefined
+
+  const update = async () => {
+    if (fetching) {
+      pending = true
+      return
+    }
+
+    fetching = true
+
+    try {
+      const value = await fetchValue()
+
+      if (!active) {
+        return
+      }
+
+      if (isError(value)) {
+        onError?.(value)
+      } else if (!current || !isEqual(current.value, value)) {
+        current = { value }
+        await listener(value)
+      }
+    } catch (e) {
+      if (active) {
+        onError?.(e)
+      }
+    } finally {
+      fetching = false
+
+      if (pending && active) {
+        pending = false
+        update()
+      }
+    }
+  }
+
+  const cancelUpdate = () => timeout && clearTimeout(timeout)
+
+  const onBlock = () => {
+    cancelUpdate()
+    timeout = setTimeout(update, debounce)
+  }
+
+  provider.addListener('block', onBlock)
+  update()
+
+  return {
+    unsubscribe: () => {
+      active = false
+      cancelUpdate()
+      provider.removeListener('block', onBlock)
+    }
+  }
+}
+
+/**
+ * Subscribe to the spot prices of an AMM pair.
+ * @param provider
+ * @param network - The network of the AMM.
+ * @param amm - The target AMM.
+ * @param pairId - The target pair.
+ * @param listener - Called with the price of each pool token in the other one, in the order of the pool.
+ * @param options - SubscriptionOptions
+ * @returns - a Subscription
+ */
+export const subscribeSpotPrices = (
+  provider: Provider,
+  network: Network,
+  amm: AMM,
+  pairId: PairId,
+  listener: (prices: PairSpotPrices) => void,
+  options: SubscriptionOptions<PairSpotPrices> = {}
+) => {
+  const router = getAMMRouterContract(provider, network)
+
+  return subscribe(
+    provider,
+    async (): Promise<PairSpotPrices> => ({
+      amm: amm.address,
+      pairId,
+      prices: await Promise.all([
+        router.getSpotPrice(amm.address, [pairId], [1, 0]),
+        router.getSpotPrice(amm.address, [pairId], [0, 1])
+      ])
+    }),
+    listener,
+    {
+      isEqual: (previous, next) =>
+        previous.prices.every((price, i) => price.eq(next.prices[i])),
+      ...options
+    }
+  )
+}
+
+/**
+ * Subscribe to the token balance of an account.
+ * @param provider
+ * @param tokenAddress - The address of the token contract.
+ * @param account - The token owner's wallet address.
+ * @param listener - Called with the balance.
+ * @param options - SubscriptionOptions
+ * @returns - a Subscription
+ */
+export const subscribeBalance = (
+  provider: Provider,
+  tokenAddress: string,
+  account: string,
+  listener: (balance: BigNumber) => void,
+  options: SubscriptionOptions<BigNumber> = {}
+) => {
+  const token = getTokenContract(provider, tokenAddress)
+
+  return subscribe(provider, () => token.balanceOf(account), listener, options)
+}
+
+/**
+ * Subscribe to the allowance of a spender on the tokens of an owner.
+ * @param provider
+ * @param network - The network of the token.
+ * @param owner - The token owner's wallet address.
+ * @param spender - The contract/entity to which the allowance is set.
+ * @param tokenAddress - The address of the token contract.
+ * @param listener - Called with the allowance in TokenAmount.
+ * @param options - SubscriptionOptions
+ * @returns - a Subscription
+ */
+export const subscribeAllowance = (
+  provider: Provider,
+  network: Network,
+  owner: string,
+  spender: string,
+  tokenAddress: string,
+  listener: (allowance: TokenAmount) => void,
+  options: SubscriptionOptions<TokenAmount> = {}
+) =>
+  subscribe(
+    provider,
+    () => fetchAllowance(provider, network, owner, spender, tokenAddress),
+    listener,
+    { isEqual: (previous, next) => previous.equalTo(next), ...options }
+  )
+
+/**
+ * Subscribe to the period of a future: its index, and the start of the next one.
+ * @param provider
+ * @param network - The network of the future.
+ * @param future - The target future vault.
+ * @param listener - Called with the period, and every time a new period starts or the next one is rescheduled.
+ * @param options - SubscriptionOptions
+ * @param controller - The Controller instance, fetched if not passed.
+ * @returns - a Subscription
+ */
+export const subscribePeriod = (
+  provider: Provider,
+  network: Network,
+  future: FutureVault,
+  listener: (period: PeriodUpdate) => void | Promise<void>,
+  options: SubscriptionOptions<PeriodUpdate> = {},
+  controller?: Controller | null
+) => {
+  let _controller = controller
+
+  return subscribe(
+    provider,
+    async (): Promise<PeriodUpdate> => {
+      _controller =
+        _controller ?? (await getControllerContract(provider, network))
+
+      const [periodIndex, periodDuration] = await Promise.all([
+        future.getCurrentPeriodIndex(),
+        future.PERIOD_DURATION()
+      ])
+
+      return {
+        future: future.address,
+        periodIndex: periodIndex.toNumber(),
+        nextPeriodTimestamp: await _controller.getNextPeriodStart(
+          periodDuration
+        )
+      }
+    },
+    listener,
+    {
+      isEqual: (previous, next) =>
+        previous.periodIndex === next.periodIndex &&
+        previous.nextPeriodTimestamp.eq(next.nextPeriodTimestamp),
+      ...options
+    }
+  )
+}
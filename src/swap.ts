@@ -1,108 +1,137 @@
 import { AMM, AMMRegistry__factory, AMMRouterV1__factory } from '@apwine/amm'
-import {
-  FutureVault,
-  FutureYieldToken__factory,
-  IERC20__factory,
-  PT__factory
-} from '@apwine/protocol'
+import { FutureVault } from '@apwine/protocol'
 import { BigNumber, BigNumberish, ethers, Signer } from 'ethers'
 
 import { Provider } from '@ethersproject/providers'
-import { MINUTE } from './constants'
 import {
   APWToken,
+  Error,
   Network,
+  PairId,
   SDKFunctionReturnType,
   Transaction,
   Options,
+  QueryParams,
   TransactionParams,
   WithNetwork,
-  SwapParams
+  SwapParams,
+  SwapQuote,
+  SwapType
 } from './types'
 import { getAMMRouterContract } from './contracts'
-import { error, getNetworkConfig } from './utils/general'
-import { applySlippage, findSwapPath } from './utils/swap'
-import { isApprovalNecessary } from './futures'
+import { error, getNetworkConfig, isError } from './utils/general'
+import {
+  applySlippage,
+  findSwapPath,
+  getDeadline,
+  getPriceImpact,
+  isValidSlippage
+} from './utils/swap'
+import { isDryRun, sendTransaction } from './utils/transactions'
+import { approveAndWait } from './futures'
 
 export type SwapParamsFull = SwapParams & TransactionParams & WithNetwork
+export type SwapQuoteParams = SwapParams & QueryParams & WithNetwork
 
+/**
+ * Fetch the address of a token of an AMM.
+ * @param amm - The target AMM.
+ * @param token - PT, Underlying or FYT.
+ * @returns - the address of the token, or undefined for an unknown token.
+ */
+export const fetchTokenAddress = async (amm: AMM, token: APWToken) => {
+  switch (token) {
+    case 'PT':
+      return amm.getPTAddress()
+    case 'Underlying':
+      return amm.getUnderlyingOfIBTAddress()
+    case 'FYT':
+      return amm.getFYTAddress()
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Approve the router to spend the input token of a swap, and wait for the approval to be mined.
+ */
 const approveSwap = async (
   signer: Signer,
   network: Network,
   amm: AMM,
   token: APWToken,
-  amount: BigNumberish
-) => {
-  const [ptAddress, underlyingAddress, fytAddress] = await Promise.all([
-    amm.getPTAddress(),
-    amm.getUnderlyingOfIBTAddress(),
-    amm.getFYTAddress()
-  ])
-
-  const spender = getNetworkConfig(network).AMM_ROUTER
-  const user = await signer.getAddress()
-
-  if (token === 'PT') {
-    const needsApproval = await isApprovalNecessary(
-      signer,
-      user,
-      spender,
-      ptAddress,
-      amount
-    )
+  amount: BigNumberish,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>> => {
+  const tokenAddress = await fetchTokenAddress(amm, token)
 
-    return (
-      needsApproval &&
-      PT__factory.connect(ptAddress, signer).approve(spender, amount)
-    )
+  if (!tokenAddress) {
+    return error('NoSuchToken')
   }
 
-  if (token === 'Underlying') {
-    const needsApproval = await isApprovalNecessary(
-      signer,
-      user,
-      spender,
-      underlyingAddress,
-      amount
-    )
+  return approveAndWait(
+    signer,
+    getNetworkConfig(network).AMM_ROUTER,
+    tokenAddress,
+    amount,
+    { relayPermit: options.relayPermit }
+  )
+}
 
-    return (
-      needsApproval &&
-      IERC20__factory.connect(underlyingAddress, signer).approve(
-        spender,
-        amount
-      )
-    )
-  }
+/**
+ * Compute the spot price of a route after a trade, by walking through every pool of the route.
+ */
+const fetchSpotPriceAfter = async (
+  swapType: SwapType,
+  amm: AMM,
+  poolPath: number[],
+  tokenPath: PairId[],
+  amount: BigNumber
+) => {
+  const hops = poolPath.map((pairId, i) => ({
+    pairId,
+    tokenIn: tokenPath[i * 2],
+    tokenOut: tokenPath[i * 2 + 1]
+  }))
 
-  if (token === 'FYT') {
-    const needsApproval = await isApprovalNecessary(
-      signer,
-      user,
-      spender,
-      underlyingAddress,
-      amount
-    )
+  let hopAmount = amount
+  let spotPriceAfter = ethers.constants.WeiPerEther
 
-    return (
-      needsApproval &&
-      FutureYieldToken__factory.connect(fytAddress, signer).approve(
-        spender,
-        amount
-      )
-    )
+  for (const { pairId, tokenIn, tokenOut } of swapType === 'IN'
+    ? hops
+    : [...hops].reverse()) {
+    const [nextHopAmount, hopSpotPrice] =
+      swapType === 'IN'
+        ? await amm.calcOutAndSpotGivenIn(
+          pairId,
+          tokenIn,
+          hopAmount,
+          tokenOut,
+          0
+        )
+        : await amm.calcInAndSpotGivenOut(
+          pairId,
+          tokenIn,
+          ethers.constants.MaxUint256,
+          tokenOut,
+          hopAmount
+        )
+
+    hopAmount = nextHopAmount
+    spotPriceAfter = spotPriceAfter
+      .mul(hopSpotPrice)
+      .div(ethers.constants.WeiPerEther)
   }
 
-  return error('NoSuchToken')
+  return spotPriceAfter
 }
 
-export const swap = async (
-  swapType: 'IN' | 'OUT',
-  params: SwapParamsFull,
-  options: Options
-): Promise<SDKFunctionReturnType<Transaction>> => {
+export const quoteSwap = async (
+  swapType: SwapType,
+  params: SwapQuoteParams
+): Promise<SwapQuote | Error> => {
   const {
-    signer,
+    signerOrProvider,
     network,
     amm,
     from,
@@ -112,60 +141,128 @@ export const swap = async (
     deadline
   } = params
 
+  if (!isValidSlippage(slippageTolerance)) {
+    return error('FaultySlippage')
+  }
+
+  const { poolPath, tokenPath } = findSwapPath(from, to)
+
+  if (!poolPath || !tokenPath) {
+    return error('InvalidSwapRoute')
+  }
+
+  const amount = BigNumber.from(rawAmount)
+  const router = getAMMRouterContract(signerOrProvider, network)
+  const getAmount =
+    swapType === 'IN' ? router.getAmountOut : router.getAmountIn
+
+  const [tokenAmount, spotPriceBefore, spotPriceAfter] = await Promise.all([
+    getAmount(amm.address, poolPath, tokenPath, amount),
+    router.getSpotPrice(amm.address, poolPath, tokenPath),
+    fetchSpotPriceAfter(swapType, amm, poolPath, tokenPath, amount)
+  ])
+
+  const tokenAmountWithSlippage =
+    swapType === 'IN'
+      ? applySlippage(tokenAmount, -slippageTolerance)
+      : applySlippage(tokenAmount, slippageTolerance)
+
+  const amountIn = swapType === 'IN' ? amount : tokenAmountWithSlippage
+  const amountOut = swapType === 'IN' ? tokenAmountWithSlippage : amount
+
+  const priceImpact =
+    swapType === 'IN'
+      ? getPriceImpact(amount, tokenAmount, spotPriceBefore)
+      : getPriceImpact(tokenAmount, amount, spotPriceBefore)
+
+  return {
+    swapType,
+    amm,
+    from,
+    to,
+    amount,
+    tokenAmount,
+    tokenAmountWithSlippage,
+    amountIn,
+    amountOut,
+    slippageTolerance,
+    spotPriceBefore,
+    spotPriceAfter,
+    priceImpact,
+    poolPath,
+    tokenPath,
+    deadline: getDeadline(deadline)
+  }
+}
+
+export const executeSwap = async (
+  signer: Signer,
+  network: Network,
+  quote: SwapQuote,
+  options: Options
+): Promise<SDKFunctionReturnType<Transaction>> => {
   if (!signer) {
     return error('NoSigner')
   }
 
-  const amount = BigNumber.from(rawAmount)
+  const { swapType, amm, from, poolPath, tokenPath, amountIn, amountOut } =
+    quote
   const router = getAMMRouterContract(signer, network)
   const user = await signer.getAddress()
-  const { poolPath, tokenPath } = findSwapPath(from, to)
 
-  if (poolPath && tokenPath) {
-    const getAmount =
-      swapType === 'IN' ? router.getAmountOut : router.getAmountIn
-    const tokenAmount = await getAmount(
-      amm.address,
-      poolPath,
-      tokenPath,
-      amount
+  if (options.autoApprove && !isDryRun(options)) {
+    const approval = await approveSwap(
+      signer,
+      network,
+      amm,
+      from,
+      amountIn,
+      options
     )
-    const tokenAmountWithSlippage =
-      swapType === 'IN'
-        ? applySlippage(tokenAmount, -slippageTolerance)
-        : applySlippage(tokenAmount, slippageTolerance)
-
-    const amountIn = swapType === 'IN' ? amount : tokenAmountWithSlippage
-    const amountOut = swapType === 'IN' ? tokenAmountWithSlippage : amount
 
-    if (slippageTolerance > 100 || slippageTolerance < 0.1) {
-      return error('FaultySlippage')
+    if (isError(approval)) {
+      return approval
     }
+  }
 
-    if (options.autoApprove) {
-      await (swapType === 'IN'
-        ? approveSwap(signer, network, amm, from, amount)
-        : approveSwap(signer, network, amm, from, tokenAmountWithSlippage))
-    }
-
-    const swap =
-      swapType === 'IN' ? router.swapExactAmountIn : router.swapExactAmountOut
-
-    const transaction = await swap(
+  return sendTransaction(
+    router,
+    swapType === 'IN' ? 'swapExactAmountIn' : 'swapExactAmountOut',
+    [
       amm.address,
       poolPath,
       tokenPath,
       amountIn,
       amountOut,
       user,
-      deadline?.getTime() ?? Date.now() + MINUTE,
+      quote.deadline,
       ethers.constants.AddressZero
-    )
+    ],
+    options
+  )
+}
+
+export const swap = async (
+  swapType: SwapType,
+  params: SwapParamsFull,
+  options: Options
+): Promise<SDKFunctionReturnType<Transaction>> => {
+  const { signer } = params
 
-    return { transaction }
+  if (!signer) {
+    return error('NoSigner')
   }
 
-  return error('InvalidSwapRoute')
+  const quote = await quoteSwap(swapType, {
+    signerOrProvider: signer,
+    ...params
+  })
+
+  if (isError(quote)) {
+    return quote
+  }
+
+  return executeSwap(signer, params.network, quote, options)
 }
 
 export const fetchSpotPrice = async (
@@ -193,3 +290,28 @@ export const fetchSpotPrice = async (
 
   return error('InvalidSwapRoute')
 }
+
+/**
+ * Fetch the price of a token in Underlying, from the spot price of the Underlying -> token route.
+ * @param signerOrProvider
+ * @param network - The network of the future.
+ * @param future - The target future vault.
+ * @param token - PT or FYT.
+ * @returns - the price of the token in Underlying, or zero if there is no route.
+ */
+export const fetchUnderlyingPrice = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  future: FutureVault,
+  token: Exclude<APWToken, 'Underlying'>
+) => {
+  const price = await fetchSpotPrice(
+    signerOrProvider,
+    network,
+    future,
+    'Underlying',
+    token
+  )
+
+  return isError(price) ? BigNumber.from(0) : price
+}
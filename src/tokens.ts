@@ -0,0 +1,362 @@
+import { AMM } from '@apwine/amm'
+import { FutureVault, PT__factory } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { TokenAmount } from '@uniswap/sdk'
+import { BigNumber, Signer } from 'ethers'
+import { withCache } from './cache'
+import { POOLS } from './constants'
+import { getFutureVaultContract, getTokenContract } from './contracts'
+import { fetchAMM } from './futures'
+import {
+  AddLiquidityQuote,
+  Cache,
+  ClaimableFYT,
+  FuturePosition,
+  FutureTokens,
+  Network,
+  PairId,
+  PoolState,
+  RemoveLiquidityQuote,
+  SwapQuote,
+  TokenMetadata,
+  TokenRole,
+  WithTokenAmounts,
+  ZapQuote
+} from './types'
+import { getAddress, getNetworkChainId } from './utils/general'
+import { toTokenAmount } from './utils/tokens'
+
+/**
+ * LP tokens are ERC1155 tokens without metadata, their amounts have 18 decimals.
+ */
+export const LP_TOKEN_DECIMALS = 18
+
+/**
+ * Fetch the symbol, name and decimals of an ERC20 token.
+ * @param signerOrProvider
+ * @param network - The network of the token.
+ * @param address - The address of the token contract.
+ * @param role - The role of the token in a future, if any.
+ * @param cache - The cache of the metadata, which never changes.
+ * @returns - TokenMetadata
+ */
+export const fetchTokenMetadata = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  address: string,
+  role?: TokenRole,
+  cache?: Cache
+): Promise<TokenMetadata> => {
+  // The ERC20 interface of the PT has the view metadata getters.
+  const token = PT__factory.connect(address, signerOrProvider)
+
+  const [symbol, name, decimals] = await Promise.all([
+    withCache(cache, address, 'symbol', () => token.symbol()),
+    withCache(cache, address, 'name', () => token.name()),
+    withCache(cache, address, 'decimals', () => token.decimals().then(String))
+  ])
+
+  return {
+    address: getAddress(address),
+    symbol,
+    name,
+    decimals: Number(decimals),
+    chainId: getNetworkChainId(network),
+    role
+  }
+}
+
+/**
+ * Fetch the metadata of the tokens of a future: its IBT and Underlying, PT, the FYT of the current period and the LP tokens of its AMM.
+ * @param signerOrProvider
+ * @param network - The network of the future.
+ * @param future - The target future vault.
+ * @param cache - The cache of the addresses and metadata.
+ * @returns - FutureTokens, with the LP token of each pair.
+ */
+export const fetchFutureTokens = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  future: FutureVault,
+  cache?: Cache
+): Promise<FutureTokens> => {
+  const amm = await fetchAMM(signerOrProvider, network, future, cache)
+
+  const [ibtAddress, underlyingAddress, ptAddress, fytAddress, lpAddress] =
+    await Promise.all([
+      withCache(cache, future.address, 'ibtAddress', () =>
+        future.getIBTAddress()
+      ),
+      withCache(cache, amm.address, 'underlyingAddress', () =>
+        amm.getUnderlyingOfIBTAddress()
+      ),
+      withCache(cache, future.address, 'ptAddress', () =>
+        future.getPTAddress()
+      ),
+      withCache(cache, amm.address, 'fytAddress', () => amm.getFYTAddress()),
+      withCache(cache, amm.address, 'lpAddress', () =>
+        amm.getPoolTokenAddress()
+      )
+    ])
+
+  const [IBT, Underlying, PT, FYT] = await Promise.all(
+    (
+      [
+        [ibtAddress, 'IBT'],
+        [underlyingAddress, 'Underlying'],
+        [ptAddress, 'PT'],
+        [fytAddress, 'FYT']
+      ] as const
+    ).map(([address, role]) =>
+      fetchTokenMetadata(signerOrProvider, network, address, role, cache)
+    )
+  )
+
+  const tokens = { Underlying, PT, FYT }
+  const lpToken = (pairId: PairId): TokenMetadata => {
+    const symbols = POOLS[pairId].map((token) => tokens[token].symbol)
+
+    return {
+      address: getAddress(lpAddress),
+      symbol: `${symbols.join('-')}-LP`,
+      name: `APWine ${symbols.join('/')} LP`,
+      decimals: LP_TOKEN_DECIMALS,
+      chainId: getNetworkChainId(network),
+      role: 'LP'
+    }
+  }
+
+  return { IBT, Underlying, PT, FYT, LP: [lpToken(0), lpToken(1)] }
+}
+
+/**
+ * Fetch the token balance of an account, with the decimals of the token.
+ * @param signerOrProvider
+ * @param network - The network of the token.
+ * @param tokenAddress - The address of the token contract.
+ * @param account - The token owner's wallet address.
+ * @param cache - The cache of the metadata.
+ * @returns - The balance in TokenAmount.
+ */
+export const fetchTokenBalance = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  tokenAddress: string,
+  account: string,
+  cache?: Cache
+) => {
+  const [metadata, balance] = await Promise.all([
+    fetchTokenMetadata(
+      signerOrProvider,
+      network,
+      tokenAddress,
+      undefined,
+      cache
+    ),
+    getTokenContract(signerOrProvider, tokenAddress).balanceOf(account)
+  ])
+
+  return toTokenAmount(metadata, balance)
+}
+
+/**
+ * Fetch the metadata of the tokens of the future of an AMM.
+ * @param signerOrProvider
+ * @param network - The network of the AMM.
+ * @param amm - The target AMM.
+ * @param cache - The cache of the addresses and metadata.
+ * @returns - FutureTokens, with the LP token of each pair.
+ */
+export const fetchAMMTokens = async (
+  signerOrProvider: Signer | Provider,
+  network: Network,
+  amm: AMM,
+  cache?: Cache
+) => {
+  const futureAddress = await withCache(
+    cache,
+    amm.address,
+    'futureAddress',
+    () => amm.getFutureAddress()
+  )
+
+  return fetchFutureTokens(
+    signerOrProvider,
+    network,
+    getFutureVaultContract(signerOrProvider, futureAddress),
+    cache
+  )
+}
+
+const toPairTokenAmounts = (
+  tokens: FutureTokens,
+  pairId: PairId,
+  amounts: [BigNumber, BigNumber]
+) =>
+  POOLS[pairId].map((token, i) =>
+    toTokenAmount(tokens[token], amounts[i])
+  ) as [TokenAmount, TokenAmount]
+
+/**
+ * Attach the decimal-aware amounts of a swap quote.
+ * @param tokens - FutureTokens of the AMM of the quote.
+ * @param quote - SwapQuote returned by quoteSwap.
+ * @returns - the quote, with its amounts in tokenAmounts.
+ */
+export const withSwapQuoteTokenAmounts = (
+  tokens: FutureTokens,
+  quote: SwapQuote
+): WithTokenAmounts<SwapQuote, 'amountIn' | 'amountOut' | 'tokenAmount'> => ({
+  ...quote,
+  tokenAmounts: {
+    amountIn: toTokenAmount(tokens[quote.from], quote.amountIn),
+    amountOut: toTokenAmount(tokens[quote.to], quote.amountOut),
+    tokenAmount: toTokenAmount(
+      tokens[quote.swapType === 'IN' ? quote.to : quote.from],
+      quote.tokenAmount
+    )
+  }
+})
+
+/**
+ * Attach the decimal-aware amounts of a pool state.
+ * @param tokens - FutureTokens of the AMM of the pool.
+ * @param state - PoolState returned by fetchPoolState.
+ * @returns - the pool state, with its reserves, LP supply and TVL in tokenAmounts.
+ */
+export const withPoolStateTokenAmounts = (
+  tokens: FutureTokens,
+  state: PoolState
+): WithTokenAmounts<PoolState, 'reserves' | 'lpTotalSupply' | 'tvl'> => ({
+  ...state,
+  tokenAmounts: {
+    reserves: toPairTokenAmounts(tokens, state.pairId, state.reserves),
+    lpTotalSupply: toTokenAmount(tokens.LP[state.pairId], state.lpTotalSupply),
+    tvl: toTokenAmount(tokens.Underlying, state.tvl)
+  }
+})
+
+/**
+ * Attach the decimal-aware amounts of a liquidity deposit quote.
+ * @param tokens - FutureTokens of the AMM of the quote.
+ * @param quote - AddLiquidityQuote returned by quoteAddLiquidity.
+ * @returns - the quote, with its amounts in tokenAmounts.
+ */
+export const withAddLiquidityQuoteTokenAmounts = (
+  tokens: FutureTokens,
+  quote: AddLiquidityQuote
+): WithTokenAmounts<
+  AddLiquidityQuote,
+  'lpAmountOut' | 'amountsIn' | 'maxAmountsIn' | 'underlyingValue'
+> => ({
+  ...quote,
+  tokenAmounts: {
+    lpAmountOut: toTokenAmount(tokens.LP[quote.pairId], quote.lpAmountOut),
+    amountsIn: toPairTokenAmounts(tokens, quote.pairId, quote.amountsIn),
+    maxAmountsIn: toPairTokenAmounts(tokens, quote.pairId, quote.maxAmountsIn),
+    underlyingValue: toTokenAmount(tokens.Underlying, quote.underlyingValue)
+  }
+})
+
+/**
+ * Attach the decimal-aware amounts of a liquidity withdrawal quote.
+ * @param tokens - FutureTokens of the AMM of the quote.
+ * @param quote - RemoveLiquidityQuote returned by quoteRemoveLiquidity.
+ * @returns - the quote, with its amounts in tokenAmounts.
+ */
+export const withRemoveLiquidityQuoteTokenAmounts = (
+  tokens: FutureTokens,
+  quote: RemoveLiquidityQuote
+): WithTokenAmounts<
+  RemoveLiquidityQuote,
+  'lpAmountIn' | 'amountsOut' | 'minAmountsOut' | 'underlyingValue'
+> => ({
+  ...quote,
+  tokenAmounts: {
+    lpAmountIn: toTokenAmount(tokens.LP[quote.pairId], quote.lpAmountIn),
+    amountsOut: toPairTokenAmounts(tokens, quote.pairId, quote.amountsOut),
+    minAmountsOut: toPairTokenAmounts(
+      tokens,
+      quote.pairId,
+      quote.minAmountsOut
+    ),
+    underlyingValue: toTokenAmount(tokens.Underlying, quote.underlyingValue)
+  }
+})
+
+/**
+ * Attach the decimal-aware amounts of a zap quote.
+ * @param tokens - FutureTokens of the AMM of the quote.
+ * @param quote - ZapQuote returned by quoteZapIn or quoteZapOut.
+ * @returns - the quote, with its amounts in and out in tokenAmounts.
+ */
+export const withZapQuoteTokenAmounts = (
+  tokens: FutureTokens,
+  quote: ZapQuote
+): WithTokenAmounts<ZapQuote, 'amount' | 'amountOut'> => {
+  const token = tokens[quote.token]
+  const lpToken = tokens.LP[quote.pairId]
+
+  return {
+    ...quote,
+    tokenAmounts: {
+      amount: toTokenAmount(
+        quote.direction === 'IN' ? token : lpToken,
+        quote.amount
+      ),
+      amountOut: toTokenAmount(
+        quote.direction === 'IN' ? lpToken : token,
+        quote.amountOut
+      )
+    }
+  }
+}
+
+/**
+ * Attach the decimal-aware amount of claimable FYTs.
+ * @param tokens - FutureTokens of the future of the FYTs.
+ * @param claimable - ClaimableFYT returned by fetchClaimableFYT.
+ * @returns - the claimable FYTs, with their amount in tokenAmounts.
+ */
+export const withClaimableFYTTokenAmounts = (
+  tokens: FutureTokens,
+  claimable: ClaimableFYT
+): WithTokenAmounts<ClaimableFYT, 'amount'> => ({
+  ...claimable,
+  tokenAmounts: { amount: toTokenAmount(tokens.FYT, claimable.amount) }
+})
+
+/**
+ * Attach the decimal-aware balances and values of a position.
+ * @param tokens - FutureTokens of the future of the position.
+ * @param position - FuturePosition returned by fetchFuturePosition.
+ * @returns - the position, with its balances and Underlying values in tokenAmounts.
+ */
+export const withFuturePositionTokenAmounts = (
+  tokens: FutureTokens,
+  position: FuturePosition
+): WithTokenAmounts<
+  FuturePosition,
+  'ibtBalance' | 'ptBalance' | 'fytBalance' | 'claimableFYT' | 'value'
+> => {
+  const { value } = position
+  const toUnderlyingAmount = (amount: BigNumber) =>
+    toTokenAmount(tokens.Underlying, amount)
+
+  return {
+    ...position,
+    tokenAmounts: {
+      ibtBalance: toTokenAmount(tokens.IBT, position.ibtBalance),
+      ptBalance: toTokenAmount(tokens.PT, position.ptBalance),
+      fytBalance: toTokenAmount(tokens.FYT, position.fytBalance),
+      claimableFYT: toTokenAmount(tokens.FYT, position.claimableFYT),
+      value: {
+        IBT: toUnderlyingAmount(value.IBT),
+        PT: toUnderlyingAmount(value.PT),
+        FYT: toUnderlyingAmount(value.FYT),
+        LP: toUnderlyingAmount(value.LP),
+        total: toUnderlyingAmount(value.total)
+      }
+    }
+  }
+}
@@ -1,23 +1,78 @@
-import { BigNumber, BigNumberish, ContractTransaction, Signer } from 'ethers'
+import {
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  PopulatedTransaction,
+  Signer
+} from 'ethers'
 import { Provider } from '@ethersproject/providers'
+import { TokenAmount } from '@uniswap/sdk'
 import { AMM } from '@apwine/amm'
-import { FutureVault } from '@apwine/protocol'
+import { FutureVault, FutureYieldToken } from '@apwine/protocol'
 import { APW_TOKENS, PAIR_IDS, CHAIN_IDS } from './constants'
+import { APWineSDKError } from './errors'
 
 export type Error = {
-  error?: string
+  error: APWineSDKError
+}
+
+export type SDKFunctionReturnType<T> =
+  | (T & { error?: undefined })
+  | (Error & Partial<Record<keyof T, undefined>>)
+export type Simulation = {
+  result: unknown
+  gasEstimate: BigNumber
+  feePerGas: BigNumber | null
+  estimatedFee: BigNumber | null
+}
+
+export type Transaction = {
+  transaction?: ContractTransaction
+  populatedTransaction?: PopulatedTransaction
+  receipt?: ContractReceipt
+  simulation?: Simulation
+}
+
+export type PermitSignature = {
+  tokenAddress: string
+  owner: string
+  spender: string
+  value: BigNumber
+  nonce: BigNumber
+  deadline: BigNumber
+  v: number
+  r: string
+  s: string
 }
 
 export type Options = {
   autoApprove?: boolean
+  populate?: boolean
+  simulate?: boolean
+  from?: string
+  relayPermit?: (
+    signature: PermitSignature
+  ) => Promise<SDKFunctionReturnType<Transaction>>
 }
 
 export type PairId = typeof PAIR_IDS[number]
 export type Network =
   | keyof typeof CHAIN_IDS
   | typeof CHAIN_IDS[keyof typeof CHAIN_IDS]
+  | string
+  | number
   | BigNumber
 
+export type NetworkConfig = {
+  chainId: number
+  name: string
+  AMM_REGISTRY: string
+  AMM_ROUTER: string
+  REGISTRY_ADDRESS: string
+  MULTICALL_ADDRESS?: string
+}
+
 export type QueryParams = {
   signerOrProvider: Signer | Provider
 }
@@ -30,11 +85,62 @@ export type WithNetwork = {
   network: Network
 }
 
+export type CacheDataClass = 'immutable' | 'period'
+
+export type CacheAdapter = {
+  get: (
+    key: string
+  ) => Promise<string | null | undefined> | string | null | undefined
+  set: (key: string, value: string, ttl?: number) => Promise<void> | void
+  delete: (key: string) => Promise<void> | void
+}
+
+export type Cache = {
+  adapter: CacheAdapter
+  ttls: Record<CacheDataClass, number | undefined>
+  chainId?: number
+}
+
+export type WithCache = {
+  cache?: Cache
+}
+
 export type APWToken = typeof APW_TOKENS[number]
-export type Pool = [APWToken, APWToken]
 
-export type SDKFunctionReturnType<T> = Error & T
-export type Transaction = { transaction?: ContractTransaction }
+export type TokenRole = 'IBT' | APWToken | 'LP'
+
+export type TokenMetadata = {
+  address: string
+  symbol: string
+  name: string
+  decimals: number
+  chainId: number
+  role?: TokenRole
+}
+
+export type FutureTokens = Record<Exclude<TokenRole, 'LP'>, TokenMetadata> & {
+  LP: [TokenMetadata, TokenMetadata]
+}
+
+export type Amount = BigNumberish | TokenAmount
+
+type ToTokenAmounts<T> = T extends BigNumber
+  ? TokenAmount
+  : T extends [BigNumber, BigNumber]
+  ? [TokenAmount, TokenAmount]
+  : { [K in keyof T]: ToTokenAmounts<T[K]> }
+
+export type WithTokenAmounts<T, K extends keyof T> = T & {
+  tokenAmounts: ToTokenAmounts<Pick<T, K>>
+}
+
+export type WithAmount<T extends { amount: BigNumberish }> = Omit<
+  T,
+  'amount'
+> & {
+  amount: Amount
+}
+export type Pool = [APWToken, APWToken]
 
 export type RequireExclusive<T, Keys extends keyof T = keyof T> = Pick<
   T,
@@ -50,6 +156,11 @@ export type SDKProps = {
   provider: Provider
   signer?: Signer | null
   defaultSlippage?: number
+  throwOnError?: boolean
+  cache?: Cache | null
+  networks?: NetworkConfig[]
+  networkMismatch?: 'error' | 'warn'
+  watchNetwork?: boolean
 }
 
 export type SDKOptions = {
@@ -70,6 +181,105 @@ export type FutureAggregate = {
   nextPeriodTimestamp: BigNumber
 }
 
+export type AMMPeriod = {
+  periodIndex: number
+  futurePeriodIndex: number
+  isCurrent: boolean
+  startTimestamp: BigNumber | null
+  endTimestamp: BigNumber | null
+  ptAddress: string
+  fytAddress: string
+  lpTokenIds: [BigNumber, BigNumber]
+  lpTotalSupplies: [BigNumber, BigNumber]
+  reserves: [[BigNumber, BigNumber], [BigNumber, BigNumber]] | null
+}
+
+export type PoolState = {
+  amm: AMM
+  pairId: PairId
+  periodIndex: BigNumber
+  lpTokenId: BigNumber
+  tokenAddresses: [string, string]
+  reserves: [BigNumber, BigNumber]
+  weights: [BigNumber, BigNumber]
+  swapFee: BigNumber
+  lpTotalSupply: BigNumber
+  tvl: BigNumber
+}
+
+export type PoolSnapshot = Pick<
+  PoolState,
+  'reserves' | 'weights' | 'swapFee' | 'lpTotalSupply'
+>
+
+export type LPPosition = {
+  id: BigNumber
+  pairId: PairId
+  periodIndex: number
+  balance: BigNumber
+  value: BigNumber
+}
+
+export type FuturePosition = {
+  vault: FutureVault
+  amm: AMM
+  periodIndex: BigNumber
+  ibtBalance: BigNumber
+  ptBalance: BigNumber
+  fytBalance: BigNumber
+  claimableFYT: BigNumber
+  lpPositions: LPPosition[]
+  prices: Record<Exclude<APWToken, 'Underlying'>, BigNumber>
+  value: {
+    IBT: BigNumber
+    PT: BigNumber
+    FYT: BigNumber
+    LP: BigNumber
+    total: BigNumber
+  }
+}
+
+export type Portfolio = FuturePosition[]
+
+export type FYTToken = {
+  vault: FutureVault
+  periodIndex: number
+  isCurrent: boolean
+  address: string
+  token: FutureYieldToken
+  symbol: string
+  decimals: number
+  totalSupply: BigNumber
+}
+
+export type ClaimableFYT = {
+  future: FutureVault
+  periodIndex: BigNumber
+  fytAddress: string
+  amount: BigNumber
+}
+
+export type RedeemablePosition = {
+  type: 'FYT' | 'TerminatedFuture'
+  future: FutureVault
+  periodIndex: number
+  tokenAddress: string
+  balance: BigNumber
+  amount: BigNumber
+  underlyingAmount: BigNumber
+}
+
+export type FutureRates = {
+  timeToMaturity: number
+  daysToMaturity: number
+  ptPrice: number
+  fytPrice: number
+  fixedAPR: number
+  fixedAPY: number
+  fytImpliedYield: number
+  fytImpliedAPR: number
+}
+
 export type SwapParams = {
   amm: AMM
   from: APWToken
@@ -79,10 +289,51 @@ export type SwapParams = {
   deadline?: Date
 }
 
+export type SwapType = 'IN' | 'OUT'
+
+export type SwapQuote = {
+  swapType: SwapType
+  amm: AMM
+  from: APWToken
+  to: APWToken
+  amount: BigNumber
+  tokenAmount: BigNumber
+  tokenAmountWithSlippage: BigNumber
+  amountIn: BigNumber
+  amountOut: BigNumber
+  slippageTolerance: number
+  spotPriceBefore: BigNumber
+  spotPriceAfter: BigNumber
+  priceImpact: number
+  poolPath: number[]
+  tokenPath: PairId[]
+  deadline: number
+}
+
+export type TradeLimit =
+  | { maxPriceImpact: number }
+  | { spotPrice: BigNumberish }
+  | { fixedAPY: number }
+
+export type LocalSwapQuote = Pick<
+  SwapQuote,
+  | 'swapType'
+  | 'from'
+  | 'to'
+  | 'amountIn'
+  | 'amountOut'
+  | 'spotPriceBefore'
+  | 'spotPriceAfter'
+  | 'priceImpact'
+  | 'poolPath'
+  | 'tokenPath'
+>
+
 export type RemoveLiquidityParams = {
   amm: AMM
   pairId: PairId
   amount: BigNumberish
+  slippageTolerance: number
   minAmountsOut?: [BigNumberish, BigNumberish]
   account?: string
 }
@@ -91,9 +342,244 @@ export type AddLiquidityParams = {
   amm: AMM
   pairId: PairId
   amount: BigNumberish
+  slippageTolerance: number
   maxAmountsIn?: [BigNumberish, BigNumberish]
   account?: string
 }
 
+export type AddLiquidityQuote = {
+  amm: AMM
+  pairId: PairId
+  lpAmountOut: BigNumber
+  amountsIn: [BigNumber, BigNumber]
+  maxAmountsIn: [BigNumber, BigNumber]
+  underlyingValue: BigNumber
+  slippageTolerance: number
+}
+
+export type RemoveLiquidityQuote = {
+  amm: AMM
+  pairId: PairId
+  lpAmountIn: BigNumber
+  amountsOut: [BigNumber, BigNumber]
+  minAmountsOut: [BigNumber, BigNumber]
+  underlyingValue: BigNumber
+  slippageTolerance: number
+}
+
+export type ZapToken = APWToken | 'IBT'
+
+export type ZapInParams = {
+  amm: AMM
+  pairId: PairId
+  token: ZapToken
+  amount: BigNumberish
+  slippageTolerance: number
+}
+
+export type ZapOutParams = {
+  amm: AMM
+  pairId: PairId
+  token: APWToken
+  amount: BigNumberish
+  slippageTolerance: number
+}
+
+export type ZapLeg =
+  | {
+      type: 'Deposit'
+      future: FutureVault
+      amount: BigNumber
+      ptAmount: BigNumber
+    }
+  | { type: 'ClaimFYT'; future: FutureVault; amount: BigNumber }
+  | { type: 'Swap'; quote: SwapQuote }
+  | { type: 'AddLiquidity'; quote: AddLiquidityQuote }
+  | { type: 'RemoveLiquidity'; quote: RemoveLiquidityQuote }
+
+export type ZapQuote = {
+  direction: 'IN' | 'OUT'
+  amm: AMM
+  pairId: PairId
+  token: ZapToken
+  amount: BigNumber
+  amountOut: BigNumber
+  slippageTolerance: number
+  legs: ZapLeg[]
+}
+
+export type HistoryQuery = {
+  account?: string
+  fromBlock: number
+  toBlock?: number
+  pageSize?: number
+}
+
+type HistoryRecordBase = {
+  user: string
+  future: string
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+}
+
+export type HistoryRecord = HistoryRecordBase &
+  (
+    | { type: 'Deposit' | 'Withdraw'; amount: BigNumber }
+    | {
+        type: 'Swap'
+        amm: string
+        pairId: PairId
+        tokenIn: APWToken
+        tokenOut: APWToken
+        amountIn: BigNumber
+        amountOut: BigNumber
+      }
+    | {
+        type: 'AddLiquidity' | 'RemoveLiquidity'
+        amm: string
+        pairId: PairId
+        lpAmount: BigNumber
+      }
+    | { type: 'ClaimFYT'; fytAddress: string; amount: BigNumber }
+  )
+
+export type PnLToken = 'PT' | 'FYT' | 'LP'
+
+export type PnLPositionInput = {
+  future: string
+  prices: {
+    PT: BigNumber
+    FYT: BigNumber
+    LP: [BigNumber, BigNumber]
+  }
+  balances: {
+    PT: BigNumber
+    FYT: BigNumber
+    LP: [BigNumber, BigNumber]
+  }
+  accruedYield: BigNumber
+}
+
+export type PnLEventValue = {
+  value: BigNumber
+  prices?: Record<'PT' | 'FYT', BigNumber>
+  tokens?: {
+    amounts: [BigNumber, BigNumber]
+    values: [BigNumber, BigNumber]
+  }
+}
+
+export type PnLTokenReport = {
+  balance: BigNumber
+  value: BigNumber
+  costBasis: BigNumber
+  realisedPnL: BigNumber
+  unrealisedPnL: BigNumber
+}
+
+export type PnLSummary = {
+  realisedPnL: BigNumber
+  unrealisedPnL: BigNumber
+  accruedYield: BigNumber
+  totalPnL: BigNumber
+}
+
+export type FuturePnL = PnLSummary & {
+  future: string
+  tokens: Record<PnLToken, PnLTokenReport>
+}
+
+export type PnLReport = PnLSummary & {
+  futures: FuturePnL[]
+}
+
+export type PlanStepType =
+  | 'Approval'
+  | 'LPApproval'
+  | 'Deposit'
+  | 'ClaimFYT'
+  | 'Swap'
+  | 'AddLiquidity'
+  | 'RemoveLiquidity'
+
+export type PlanStep = {
+  type: PlanStepType
+  description: string
+  execute: (
+    signer: Signer,
+    options: Options
+  ) => Promise<SDKFunctionReturnType<Transaction>>
+}
+
+export type Plan = {
+  steps: PlanStep[]
+}
+
+export type PlanEvent = {
+  type: 'StepStarted' | 'StepSent' | 'StepConfirmed' | 'StepSkipped' | 'StepFailed'
+  index: number
+  step: PlanStep
+  result?: SDKFunctionReturnType<Transaction>
+}
+
+export type PlanExecutionOptions = {
+  fromStep?: number
+  confirmations?: number
+  onProgress?: (event: PlanEvent) => void
+}
+
+export type PlanExecution = {
+  results: SDKFunctionReturnType<Transaction>[]
+  completed: boolean
+  nextStep: number
+}
+
+export type SubscriptionOptions<T> = {
+  debounce?: number
+  isEqual?: (previous: T, next: T) => boolean
+  onError?: (error: unknown) => void
+}
+
+export type Subscription = {
+  unsubscribe: () => void
+}
+
+export type PairSpotPrices = {
+  amm: string
+  pairId: PairId
+  prices: [BigNumber, BigNumber]
+}
+
+export type PeriodUpdate = {
+  future: string
+  periodIndex: number
+  nextPeriodTimestamp: BigNumber
+}
+
+export type OrderCondition =
+  | { type: 'spotPrice'; below?: BigNumberish; above?: BigNumberish }
+  | { type: 'fixedAPY'; below?: number; above?: number }
+
+export type ConditionalOrder = Pick<SwapParams, 'amm' | 'from' | 'to'> & {
+  swapType: SwapType
+  amount: BigNumberish
+  condition: OrderCondition
+  maxSlippage: number
+  expiry?: Date
+}
+
+export type OrderStatus = 'Pending' | 'Executed' | 'Ready' | 'Expired' | 'Failed'
+
+export type OrderUpdate = Transaction & {
+  status: OrderStatus
+  value?: BigNumber | number
+  quote?: SwapQuote
+  error?: APWineSDKError
+}
+
+export type WatchOrderOptions = Options &
+  Pick<SubscriptionOptions<OrderUpdate>, 'debounce' | 'onError'>
+
 export type WithOptional<T, K extends keyof T> = Omit<T, K> &
   Partial<Pick<T, K>>
@@ -1,11 +1,19 @@
-import { BigNumber, BytesLike, ethers } from 'ethers'
+import { BigNumber, BytesLike, ethers, Signer } from 'ethers'
 import { Hexable, keccak256 } from 'ethers/lib/utils'
 import { DataOptions, Bytes } from '@ethersproject/bytes'
 import { Logger } from '@ethersproject/logger'
-import errors from '../errors.json'
-import { Error, Network } from '../types'
+import { Provider } from '@ethersproject/providers'
+import {
+  APWineSDKError,
+  createError,
+  ErrorCode,
+  InvalidNetworkConfigError,
+  NetworkMismatchError,
+  UnsupportedNetworkError
+} from '../errors'
+import { Error, Network, NetworkConfig } from '../types'
 import config from '../config.json'
-import { CHAIN_IDS, NETWORKS } from '../constants'
+import { CHAIN_IDS } from '../constants'
 
 const version = 'bytes/5.5.0'
 const logger = new Logger(version)
@@ -220,44 +228,218 @@ export function getAddress(address: string): string {
   return result
 }
 
-export const error = (type: keyof typeof errors): Error => ({
-  error: errors[type]
+export const error = (
+  type: Exclude<ErrorCode, 'ContractError'> | APWineSDKError
+): Error => ({
+  error: type instanceof APWineSDKError ? type : createError(type)
 })
 
 export const isError = (input: unknown): input is Error => {
-  return typeof input === 'object' && input !== null && 'error' in input
+  return (
+    typeof input === 'object' &&
+    input !== null &&
+    (input as Partial<Error>).error instanceof APWineSDKError
+  )
 }
 
-export const getNetworkConfig = (network: Network) => {
-  if (BigNumber.isBigNumber(network)) {
-    const [name] = Object.entries(CHAIN_IDS).find((entry) =>
-      entry.includes(network.toNumber() as any)
-    )! as [keyof typeof CHAIN_IDS, number]
+/**
+ * The deployments of the SDK by chain id, built-in networks first.
+ */
+const networkConfigs = new Map<number, NetworkConfig>(
+  (Object.keys(CHAIN_IDS) as (keyof typeof CHAIN_IDS)[]).map((name) => [
+    CHAIN_IDS[name],
+    { chainId: CHAIN_IDS[name], name, ...config.networks[name] }
+  ])
+)
+
+const NETWORK_ADDRESSES = [
+  'AMM_REGISTRY',
+  'AMM_ROUTER',
+  'REGISTRY_ADDRESS',
+  'MULTICALL_ADDRESS'
+] as const
+
+/**
+ * Check a network config before registering it.
+ * @param networkConfig - the NetworkConfig to check.
+ * @returns - the reason why the config is invalid, or undefined if it is valid.
+ */
+export const validateNetworkConfig = (networkConfig: NetworkConfig) => {
+  const { chainId, name } = networkConfig
+
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    return `Invalid chain id: ${chainId}`
+  }
+
+  if (typeof name !== 'string' || !name) {
+    return 'The network name is required.'
+  }
+
+  const namesake = [...networkConfigs.values()].find(
+    (registered) => registered.name === name && registered.chainId !== chainId
+  )
 
-    return config.networks[name]
+  if (namesake) {
+    return `The name ${name} is already used by chain id ${namesake.chainId}.`
   }
 
-  const [name] = Object.entries(CHAIN_IDS).find((entry) =>
-    entry.includes(network)
-  )! as [keyof typeof CHAIN_IDS, number]
+  const invalidAddress = NETWORK_ADDRESSES.find((field) =>
+    field === 'MULTICALL_ADDRESS'
+      ? networkConfig[field] !== undefined &&
+        !ethers.utils.isAddress(networkConfig[field]!)
+      : !ethers.utils.isAddress(networkConfig[field])
+  )
 
-  return config.networks[name]
+  if (invalidAddress) {
+    return `Invalid ${invalidAddress}: ${networkConfig[invalidAddress]}`
+  }
+
+  return undefined
 }
 
-export const getNetworkChainId = (network: Network) => {
-  if (typeof network === 'number') {
-    return network
+/**
+ * Register a network, e.g. a local fork or a new deployment, or replace the deployment of a registered chain id.
+ * Networks are shared by every SDK instance.
+ * @param networkConfig - NetworkConfig, with the chain id, the name and the addresses of the deployment.
+ * @returns - the registered NetworkConfig, or an error if it is invalid.
+ */
+export const registerNetwork = (
+  networkConfig: NetworkConfig
+): NetworkConfig | Error => {
+  const reason = validateNetworkConfig(networkConfig)
+
+  if (reason) {
+    return error(new InvalidNetworkConfigError(reason))
   }
 
-  if (BigNumber.isBigNumber(network)) {
-    return network.toNumber()
+  const registered = { ...networkConfig }
+
+  NETWORK_ADDRESSES.forEach((field) => {
+    const address = registered[field]
+
+    if (address) {
+      registered[field] = getAddress(address)
+    }
+  })
+
+  networkConfigs.set(registered.chainId, registered)
+
+  return registered
+}
+
+/**
+ * List the networks supported by the SDK.
+ * @returns - the NetworkConfig of every built-in and registered network.
+ */
+export const getRegisteredNetworks = () => [...networkConfigs.values()]
+
+const findNetworkConfig = (network: Network) =>
+  typeof network === 'string'
+    ? getRegisteredNetworks().find(({ name }) => name === network)
+    : networkConfigs.get(BigNumber.from(network).toNumber())
+
+/**
+ * Check whether a network is built in or registered.
+ * @param network - a network name or chain id.
+ * @returns - a boolean value.
+ */
+export const isNetworkSupported = (network: Network) =>
+  !!findNetworkConfig(network)
+
+/**
+ * Read the deployment of a network.
+ * @param network - a network name or chain id.
+ * @returns - the NetworkConfig of the network.
+ * @throws - UnsupportedNetworkError if the network is neither built in nor registered.
+ */
+export const getNetworkConfig = (network: Network) => {
+  const networkConfig = findNetworkConfig(network)
+
+  if (!networkConfig) {
+    throw new UnsupportedNetworkError(network)
   }
 
-  return CHAIN_IDS[network]
+  return networkConfig
+}
+
+export const getNetworkChainId = (network: Network) => {
+  if (typeof network === 'string') {
+    return getNetworkConfig(network).chainId
+  }
+
+  return BigNumber.from(network).toNumber()
 }
 
 export const getNetworkByChainId = (chainId: number): Network => {
+  const networkConfig = networkConfigs.get(chainId)
+
+  if (networkConfig) {
+    return networkConfig.name
+  }
+
   const network = ethers.providers.getNetwork(chainId).name
   if (network === 'homestead') return 'mainnet'
   return network as Network
 }
+
+/**
+ * Check that a provider, and the provider of a signer, are connected to the chain of a network.
+ * @param network - the expected network.
+ * @param provider - the provider to check.
+ * @param signer - the signer to check, if it is connected to a provider.
+ * @returns - the chain id of the network, or a NetworkMismatchError.
+ */
+export const checkNetwork = async (
+  network: Network,
+  provider: Provider,
+  signer?: Signer | null
+): Promise<number | Error> => {
+  const expectedChainId = getNetworkChainId(network)
+  const { chainId } = await provider.getNetwork()
+
+  if (chainId !== expectedChainId) {
+    return error(new NetworkMismatchError(expectedChainId, chainId, 'provider'))
+  }
+
+  if (signer?.provider) {
+    const signerChainId = await signer.getChainId()
+
+    if (signerChainId !== expectedChainId) {
+      return error(
+        new NetworkMismatchError(expectedChainId, signerChainId, 'signer')
+      )
+    }
+  }
+
+  return expectedChainId
+}
+
+/**
+ * The default size of the block ranges queried at once, most RPC providers limit the range of getLogs.
+ */
+export const DEFAULT_HISTORY_PAGE_SIZE = 10000
+
+/**
+ * Query events over a block range, one page of blocks after the other.
+ * @param query - the query of a single page, e.g. contract.queryFilter.
+ * @param fromBlock - the first block of the range.
+ * @param toBlock - the last block of the range.
+ * @param pageSize - the number of blocks queried at once.
+ * @returns - the events of every page.
+ */
+export const queryPaginated = async <T>(
+  query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+  fromBlock: number,
+  toBlock: number,
+  pageSize: number = DEFAULT_HISTORY_PAGE_SIZE
+) => {
+  const events: T[] = []
+
+  for (let start = fromBlock; start <= toBlock; start += pageSize) {
+    const end = Math.min(start + pageSize - 1, toBlock)
+
+    events.push(...(await query(start, end)))
+  }
+
+  return events
+}
@@ -1,3 +1,4 @@
 export { isError } from './general'
+export { formatTokenAmount, parseTokenAmount, toBigNumber, toToken, toTokenAmount } from './tokens'
 export { default as pools } from './pools'
-export { applySlippage, findSwapPath, findPoolPath, findTokenPath, getPoolTokens } from './swap'
+export { applySlippage, findSwapPath, findPoolPath, findTokenPath, getDeadline, getPoolTokens, getPriceImpact, isValidSlippage, toUnderlying } from './swap'
@@ -0,0 +1,327 @@
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import {
+  APWToken,
+  Error,
+  LocalSwapQuote,
+  PairId,
+  PoolSnapshot,
+  SwapType
+} from '../types'
+import { error } from './general'
+import { findSwapPath, getPriceImpact } from './swap'
+
+/**
+ * The fixed point unit of the AMM, every ratio, weight and price has 18 decimals.
+ */
+export const BONE = ethers.constants.WeiPerEther
+
+/**
+ * The precision of the approximation of fractional powers.
+ */
+export const BPOW_PRECISION = BONE.div(10 ** 10)
+
+/**
+ * A trade can not bring in more than half of the input reserve, or take out more than a third of the output reserve.
+ */
+export const MAX_IN_RATIO = BONE.div(2)
+export const MAX_OUT_RATIO = BONE.div(3).add(1)
+
+/**
+ * Multiply two fixed point numbers, rounding half up.
+ */
+export const bmul = (a: BigNumberish, b: BigNumberish) =>
+  BigNumber.from(a).mul(b).add(BONE.div(2)).div(BONE)
+
+/**
+ * Divide two fixed point numbers, rounding half up.
+ */
+export const bdiv = (a: BigNumberish, b: BigNumberish) =>
+  BigNumber.from(a).mul(BONE).add(BigNumber.from(b).div(2)).div(b)
+
+/**
+ * Raise a fixed point number to a whole power, by squaring.
+ */
+const bpowi = (base: BigNumber, exponent: BigNumber) => {
+  let a = base
+  let n = exponent
+  let z = n.mod(2).isZero() ? BONE : a
+
+  for (n = n.div(2); !n.isZero(); n = n.div(2)) {
+    a = bmul(a, a)
+
+    if (!n.mod(2).isZero()) {
+      z = bmul(z, a)
+    }
+  }
+
+  return z
+}
+
+/**
+ * Approximate a fractional power with its binomial series, until the terms are below the precision.
+ */
+const bpowApprox = (
+  base: BigNumber,
+  exponent: BigNumber,
+  precision: BigNumber
+) => {
+  const x = base.sub(BONE).abs()
+  const xneg = base.lt(BONE)
+  let term = BONE
+  let sum = term
+  let negative = false
+
+  for (let i = 1; term.gte(precision); i++) {
+    const bigK = BONE.mul(i)
+    const c = exponent.sub(bigK.sub(BONE))
+
+    term = bdiv(bmul(term, bmul(c.abs(), x)), bigK)
+
+    if (term.isZero()) {
+      break
+    }
+
+    if (xneg) {
+      negative = !negative
+    }
+
+    if (c.isNegative()) {
+      negative = !negative
+    }
+
+    sum = negative ? sum.sub(term) : sum.add(term)
+  }
+
+  return sum
+}
+
+/**
+ * Raise a fixed point number to a fixed point power, like the AMM does.
+ * @param base - the base, between 1 wei and 2 units.
+ * @param exponent - the exponent.
+ * @returns - base ** exponent, with 18 decimals.
+ */
+export const bpow = (base: BigNumberish, exponent: BigNumberish) => {
+  const b = BigNumber.from(base)
+  const e = BigNumber.from(exponent)
+  const whole = e.div(BONE)
+  const remain = e.sub(whole.mul(BONE))
+  const wholePow = bpowi(b, whole)
+
+  if (remain.isZero()) {
+    return wholePow
+  }
+
+  return bmul(wholePow, bpowApprox(b, remain, BPOW_PRECISION))
+}
+
+/**
+ * The spot price of a weighted pool: the amount of tokens in to pay for one token out, fees included.
+ * @param balanceIn - the reserve of the token in.
+ * @param weightIn - the weight of the token in.
+ * @param balanceOut - the reserve of the token out.
+ * @param weightOut - the weight of the token out.
+ * @param swapFee - the swap fee of the pool, with 18 decimals.
+ * @returns - the spot price, with 18 decimals.
+ */
+export const calcSpotPrice = (
+  balanceIn: BigNumberish,
+  weightIn: BigNumberish,
+  balanceOut: BigNumberish,
+  weightOut: BigNumberish,
+  swapFee: BigNumberish
+) => {
+  const ratio = bdiv(bdiv(balanceIn, weightIn), bdiv(balanceOut, weightOut))
+
+  return bmul(ratio, bdiv(BONE, BONE.sub(swapFee)))
+}
+
+/**
+ * The part of an amount in kept by the pool as a fee.
+ * @param amountIn - the amount of tokens in.
+ * @param swapFee - the swap fee of the pool, with 18 decimals.
+ * @returns - the fee, in tokens in.
+ */
+export const calcSwapFee = (amountIn: BigNumberish, swapFee: BigNumberish) =>
+  bmul(amountIn, swapFee)
+
+/**
+ * The amount of tokens out of a trade, given the amount of tokens in.
+ * @param balanceIn - the reserve of the token in.
+ * @param weightIn - the weight of the token in.
+ * @param balanceOut - the reserve of the token out.
+ * @param weightOut - the weight of the token out.
+ * @param amountIn - the amount of tokens in.
+ * @param swapFee - the swap fee of the pool, with 18 decimals.
+ * @returns - the amount of tokens out.
+ */
+export const calcOutGivenIn = (
+  balanceIn: BigNumberish,
+  weightIn: BigNumberish,
+  balanceOut: BigNumberish,
+  weightOut: BigNumberish,
+  amountIn: BigNumberish,
+  swapFee: BigNumberish
+) => {
+  const weightRatio = bdiv(weightIn, weightOut)
+  const adjustedIn = bmul(amountIn, BONE.sub(swapFee))
+  const y = bdiv(balanceIn, BigNumber.from(balanceIn).add(adjustedIn))
+
+  return bmul(balanceOut, BONE.sub(bpow(y, weightRatio)))
+}
+
+/**
+ * The amount of tokens in of a trade, given the amount of tokens out.
+ * @param balanceIn - the reserve of the token in.
+ * @param weightIn - the weight of the token in.
+ * @param balanceOut - the reserve of the token out.
+ * @param weightOut - the weight of the token out.
+ * @param amountOut - the amount of tokens out.
+ * @param swapFee - the swap fee of the pool, with 18 decimals.
+ * @returns - the amount of tokens in.
+ */
+export const calcInGivenOut = (
+  balanceIn: BigNumberish,
+  weightIn: BigNumberish,
+  balanceOut: BigNumberish,
+  weightOut: BigNumberish,
+  amountOut: BigNumberish,
+  swapFee: BigNumberish
+) => {
+  const weightRatio = bdiv(weightOut, weightIn)
+  const y = bdiv(balanceOut, BigNumber.from(balanceOut).sub(amountOut))
+  const foo = bpow(y, weightRatio).sub(BONE)
+
+  return bdiv(bmul(balanceIn, foo), BONE.sub(swapFee))
+}
+
+/**
+ * The token amounts to deposit to mint LP tokens, proportionally to the reserves.
+ * @param reserves - the reserves of the pool.
+ * @param lpTotalSupply - the total supply of LP tokens of the pool.
+ * @param lpAmountOut - the amount of LP tokens to mint.
+ * @returns - the amounts of each token in.
+ */
+export const calcTokensInGivenLPOut = (
+  reserves: [BigNumber, BigNumber],
+  lpTotalSupply: BigNumberish,
+  lpAmountOut: BigNumberish
+) => {
+  const ratio = bdiv(lpAmountOut, lpTotalSupply)
+
+  return reserves.map((reserve) => bmul(ratio, reserve)) as [
+    BigNumber,
+    BigNumber
+  ]
+}
+
+/**
+ * The token amounts withdrawn when burning LP tokens, proportionally to the reserves.
+ * @param reserves - the reserves of the pool.
+ * @param lpTotalSupply - the total supply of LP tokens of the pool.
+ * @param lpAmountIn - the amount of LP tokens to burn.
+ * @returns - the amounts of each token out.
+ */
+export const calcTokensOutGivenLPIn = (
+  reserves: [BigNumber, BigNumber],
+  lpTotalSupply: BigNumberish,
+  lpAmountIn: BigNumberish
+) => calcTokensInGivenLPOut(reserves, lpTotalSupply, lpAmountIn)
+
+/**
+ * Quote a swap from snapshots of the pools of an AMM, without any RPC call.
+ * Multi-hop routes, e.g. Underlying->PT->FYT, go through every pool of the route.
+ * @param poolStates - the PoolStates of both pairs of the AMM, e.g. from fetchPoolState.
+ * @param swapType - 'IN' for an exact amount in, 'OUT' for an exact amount out.
+ * @param from - APWToken, PT, Underlying or FYT.
+ * @param to - APWToken, PT, Underlying or FYT.
+ * @param amount - the exact amount in or out.
+ * @returns - a LocalSwapQuote, or an error if the route or the trade is invalid.
+ */
+export const quoteSwapFromPools = (
+  poolStates: Record<PairId, PoolSnapshot>,
+  swapType: SwapType,
+  from: APWToken,
+  to: APWToken,
+  amount: BigNumberish
+): LocalSwapQuote | Error => {
+  const { poolPath, tokenPath } = findSwapPath(from, to)
+
+  if (!poolPath || !tokenPath) {
+    return error('InvalidSwapRoute')
+  }
+
+  const hops = poolPath.map((pairId, i) => ({
+    pool: poolStates[pairId as PairId],
+    tokenIn: tokenPath[i * 2],
+    tokenOut: tokenPath[i * 2 + 1]
+  }))
+
+  let hopAmount = BigNumber.from(amount)
+  let spotPriceBefore = BONE
+  let spotPriceAfter = BONE
+
+  for (const { pool, tokenIn, tokenOut } of swapType === 'IN'
+    ? hops
+    : [...hops].reverse()) {
+    const { reserves, weights, swapFee, lpTotalSupply } = pool
+
+    if (lpTotalSupply.isZero()) {
+      return error('UninitializedPool')
+    }
+
+    const args = [
+      reserves[tokenIn],
+      weights[tokenIn],
+      reserves[tokenOut],
+      weights[tokenOut]
+    ] as const
+    const maxAmountIn = bmul(reserves[tokenIn], MAX_IN_RATIO)
+    const maxAmountOut = bmul(reserves[tokenOut], MAX_OUT_RATIO)
+
+    // The formulas are undefined past the reserves, so the exact amount is bounded first.
+    if (hopAmount.gt(swapType === 'IN' ? maxAmountIn : maxAmountOut)) {
+      return error('MaxRatioExceeded')
+    }
+
+    const [amountIn, amountOut] =
+      swapType === 'IN'
+        ? [hopAmount, calcOutGivenIn(...args, hopAmount, swapFee)]
+        : [calcInGivenOut(...args, hopAmount, swapFee), hopAmount]
+
+    if (amountIn.gt(maxAmountIn) || amountOut.gt(maxAmountOut)) {
+      return error('MaxRatioExceeded')
+    }
+
+    spotPriceBefore = bmul(spotPriceBefore, calcSpotPrice(...args, swapFee))
+    spotPriceAfter = bmul(
+      spotPriceAfter,
+      calcSpotPrice(
+        reserves[tokenIn].add(amountIn),
+        weights[tokenIn],
+        reserves[tokenOut].sub(amountOut),
+        weights[tokenOut],
+        swapFee
+      )
+    )
+    hopAmount = swapType === 'IN' ? amountOut : amountIn
+  }
+
+  const [amountIn, amountOut] =
+    swapType === 'IN'
+      ? [BigNumber.from(amount), hopAmount]
+      : [hopAmount, BigNumber.from(amount)]
+
+  return {
+    swapType,
+    from,
+    to,
+    amountIn,
+    amountOut,
+    spotPriceBefore,
+    spotPriceAfter,
+    priceImpact: getPriceImpact(amountIn, amountOut, spotPriceBefore),
+    poolPath,
+    tokenPath
+  }
+}
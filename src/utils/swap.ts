@@ -1,9 +1,11 @@
 import { bidirectional, edgePathFromNodePath } from 'graphology-shortest-path'
-import { BigNumber, Signer } from 'ethers'
+import { BigNumber, ethers, Signer } from 'ethers'
 import { Provider } from '@ethersproject/providers'
 import { AMM } from '@apwine/amm'
 import { FutureYieldToken__factory, IERC20__factory, PT__factory } from '@apwine/protocol'
-import { PairId, APWToken } from '../types'
+import { PairId, APWToken, Cache } from '../types'
+import { withCache } from '../cache'
+import { MINUTE } from '../constants'
 import pools from './pools'
 
 /**
@@ -63,6 +65,54 @@ export const findSwapPath = (from: APWToken, to: APWToken) => {
 export const applySlippage = (n: BigNumber, slippagePercentage: number) =>
   n.mul(10000 + slippagePercentage * 100).div(10000)
 
+/**
+ * Check that a slippage tolerance is within the accepted bounds.
+ * @param slippagePercentage - the slippage tolerance, as a percentage.
+ * @returns - true if the slippage tolerance can be used.
+ */
+export const isValidSlippage = (slippagePercentage: number) =>
+  slippagePercentage >= 0.1 && slippagePercentage <= 100
+
+/**
+ * Calculate the price impact of a trade, compared to the spot price before the trade.
+ * @param amountIn - the amount of tokens going in, without slippage.
+ * @param amountOut - the amount of tokens coming out, without slippage.
+ * @param spotPrice - the spot price of the route before the trade.
+ * @returns - the price impact as a percentage.
+ */
+export const getPriceImpact = (
+  amountIn: BigNumber,
+  amountOut: BigNumber,
+  spotPrice: BigNumber
+) => {
+  if (amountOut.isZero() || spotPrice.isZero()) {
+    return 0
+  }
+
+  const executionPrice = amountIn.mul(ethers.constants.WeiPerEther).div(amountOut)
+
+  return executionPrice.sub(spotPrice).mul(10000).div(spotPrice).toNumber() / 100
+}
+
+/**
+ * Value an amount of tokens in Underlying.
+ * @param amount - the amount of tokens.
+ * @param price - the price of the token in Underlying, with 18 decimals.
+ * @returns - the value of the tokens in Underlying.
+ */
+export const toUnderlying = (amount: BigNumber, price: BigNumber) =>
+  amount.mul(price).div(ethers.constants.WeiPerEther)
+
+/**
+ * Compute the deadline of a swap.
+ * @param deadline - an optional deadline, set by the user. Defaults to a minute from now.
+ * @returns - the deadline passed to the router, as a timestamp in seconds.
+ */
+export const getDeadline = (deadline?: Date) =>
+  deadline
+    ? Math.floor(deadline.getTime() / 1000)
+    : Math.floor(Date.now() / 1000) + MINUTE
+
 /**
  * Shows all necessary information of a swap.
  * @param from - APWToken, PT, Underlying or FYT.
@@ -88,11 +138,11 @@ export const howToSwap = (from: APWToken, to: APWToken) => {
  * @param pairId - token pair id - 0 or 1
  * @returns - a tuple of token contracts.
  */
-export const getPoolTokens = async (signerOrProvider: Signer | Provider, amm: AMM, pairId: PairId) => {
+export const getPoolTokens = async (signerOrProvider: Signer | Provider, amm: AMM, pairId: PairId, cache?: Cache) => {
   const [ptAddress, underlyingAddress, fytAddress] = await Promise.all([
-    amm.getPTAddress(),
-    amm.getUnderlyingOfIBTAddress(),
-    amm.getFYTAddress()
+    withCache(cache, amm.address, 'ptAddress', () => amm.getPTAddress()),
+    withCache(cache, amm.address, 'underlyingAddress', () => amm.getUnderlyingOfIBTAddress()),
+    withCache(cache, amm.address, 'fytAddress', () => amm.getFYTAddress())
   ])
 
   const tokens = {
@@ -0,0 +1,53 @@
+import { Token, TokenAmount } from '@uniswap/sdk'
+import { BigNumber, ethers } from 'ethers'
+import { Amount, TokenMetadata } from '../types'
+
+/**
+ * Create the Token of some token metadata.
+ * @param metadata - TokenMetadata returned by fetchTokenMetadata.
+ * @returns - a Token
+ */
+export const toToken = ({
+  chainId,
+  address,
+  decimals,
+  symbol,
+  name
+}: TokenMetadata) => new Token(chainId, address, decimals, symbol, name)
+
+/**
+ * Read the raw amount of an Amount.
+ * @param amount - a raw amount, or a TokenAmount.
+ * @returns - the amount in the smallest unit of the token.
+ */
+export const toBigNumber = (amount: Amount) =>
+  amount instanceof TokenAmount
+    ? BigNumber.from(amount.raw.toString())
+    : BigNumber.from(amount)
+
+/**
+ * Attach a raw amount to its token, to handle its decimals.
+ * @param metadata - TokenMetadata returned by fetchTokenMetadata.
+ * @param amount - a raw amount, or a TokenAmount.
+ * @returns - a TokenAmount
+ */
+export const toTokenAmount = (metadata: TokenMetadata, amount: Amount) =>
+  new TokenAmount(toToken(metadata), toBigNumber(amount).toString())
+
+/**
+ * Parse a human-readable amount, e.g. '1.5'.
+ * @param metadata - TokenMetadata returned by fetchTokenMetadata.
+ * @param value - the amount in units of the token.
+ * @returns - a TokenAmount
+ */
+export const parseTokenAmount = (metadata: TokenMetadata, value: string) =>
+  toTokenAmount(metadata, ethers.utils.parseUnits(value, metadata.decimals))
+
+/**
+ * Format an amount in units of its token, e.g. '1.5'.
+ * @param metadata - TokenMetadata returned by fetchTokenMetadata.
+ * @param amount - a raw amount, or a TokenAmount.
+ * @returns - the amount in units of the token, with all its decimals.
+ */
+export const formatTokenAmount = (metadata: TokenMetadata, amount: Amount) =>
+  ethers.utils.formatUnits(toBigNumber(amount), metadata.decimals)
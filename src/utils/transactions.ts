@@ -0,0 +1,158 @@
+import {
+  BaseContract,
+  BigNumber,
+  ContractTransaction,
+  PopulatedTransaction
+} from 'ethers'
+import { decodeContractError } from '../errors'
+import {
+  Options,
+  SDKFunctionReturnType,
+  Simulation,
+  Transaction
+} from '../types'
+import { error, isError } from './general'
+
+type ContractMethod<C extends BaseContract> = keyof C['populateTransaction'] &
+  string
+
+/**
+ * Populate a contract transaction, with the sender and a gas estimate.
+ * The gas estimate is left undefined, if the transaction would fail at the moment (e.g. an approval is not mined yet).
+ * @param contract - the contract instance, connected to a signer (a VoidSigner is enough).
+ * @param method - the name of the contract method.
+ * @param args - the arguments of the contract method.
+ * @returns - a PopulatedTransaction.
+ */
+export const populateTransaction = async <
+  C extends BaseContract,
+  M extends ContractMethod<C>
+>(
+  contract: C,
+  method: M,
+  args: Parameters<C['populateTransaction'][M]>
+): Promise<PopulatedTransaction> => {
+  const populate = contract.populateTransaction[method] as (
+    ...args: unknown[]
+  ) => Promise<PopulatedTransaction>
+
+  const populatedTransaction = await populate(...args)
+  const from = await contract.signer.getAddress()
+  const gasLimit = await contract.provider
+    .estimateGas({ ...populatedTransaction, from })
+    .catch(() => undefined)
+
+  return { ...populatedTransaction, from, gasLimit }
+}
+
+/**
+ * Whether the transactions are only populated or simulated, and not sent.
+ * @param options
+ * @returns - a boolean value.
+ */
+export const isDryRun = (options: Options = {}) =>
+  !!(options.populate || options.simulate)
+
+/**
+ * Dry run a contract transaction: its result with callStatic, its gas estimate, and its fee at the current fee data of the provider.
+ * Reverts are thrown, like they would be by sending the transaction.
+ * @param contract - the contract instance, connected to a signer (a VoidSigner is enough).
+ * @param method - the name of the contract method.
+ * @param args - the arguments of the contract method.
+ * @returns - a Simulation.
+ */
+export const simulateTransaction = async <
+  C extends BaseContract,
+  M extends ContractMethod<C>
+>(
+  contract: C,
+  method: M,
+  args: Parameters<C['populateTransaction'][M]>
+): Promise<Simulation> => {
+  const call = contract.callStatic[method] as (
+    ...args: unknown[]
+  ) => Promise<unknown>
+  const estimateGas = contract.estimateGas[method] as (
+    ...args: unknown[]
+  ) => Promise<BigNumber>
+
+  const result = await call(...args)
+  const [gasEstimate, feeData] = await Promise.all([
+    estimateGas(...args),
+    contract.provider.getFeeData()
+  ])
+  const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice
+
+  return {
+    result,
+    gasEstimate,
+    feePerGas,
+    estimatedFee: feePerGas && gasEstimate.mul(feePerGas)
+  }
+}
+
+/**
+ * Send a contract transaction, or only populate it when options.populate is set.
+ * With options.simulate, the transaction is simulated instead, and a revert is returned as a ContractError.
+ * @param contract - the contract instance, connected to a signer.
+ * @param method - the name of the contract method.
+ * @param args - the arguments of the contract method.
+ * @param options
+ * @returns - a Transaction, containing either the sent transaction or the populated one, or a decoded ContractError.
+ */
+export const sendTransaction = async <
+  C extends BaseContract,
+  M extends ContractMethod<C>
+>(
+  contract: C,
+  method: M,
+  args: Parameters<C['populateTransaction'][M]>,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>> => {
+  try {
+    if (options.simulate) {
+      return {
+        simulation: await simulateTransaction(contract, method, args)
+      }
+    }
+
+    if (options.populate) {
+      return {
+        populatedTransaction: await populateTransaction(contract, method, args)
+      }
+    }
+
+    const send = (contract as unknown as Record<M, unknown>)[method] as (
+      ...args: unknown[]
+    ) => Promise<ContractTransaction>
+
+    return { transaction: await send(...args) }
+  } catch (e) {
+    return error(decodeContractError(e, contract.address, method))
+  }
+}
+
+/**
+ * Wait for the transaction of a result to be mined.
+ * Results without a sent transaction (e.g. populated ones, or skipped approvals) are returned as they are.
+ * @param result - the result of sendTransaction.
+ * @param confirmations - the number of blocks to wait for.
+ * @returns - the result with the transaction receipt, or a decoded ContractError if the transaction reverted.
+ */
+export const waitForTransaction = async (
+  result: SDKFunctionReturnType<Transaction>,
+  confirmations = 1
+): Promise<SDKFunctionReturnType<Transaction>> => {
+  if (isError(result) || !result.transaction) {
+    return result
+  }
+
+  try {
+    return {
+      ...result,
+      receipt: await result.transaction.wait(confirmations)
+    }
+  } catch (e) {
+    return error(decodeContractError(e, result.transaction.to))
+  }
+}
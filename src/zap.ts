@@ -0,0 +1,365 @@
+import { Controller } from '@apwine/protocol'
+import { BigNumber, ethers, Signer } from 'ethers'
+import { APW_TOKENS, POOLS } from './constants'
+import { getAMMRouterContract, getFutureVaultContract } from './contracts'
+import { fetchPoolState, quoteAddLiquidity, quoteRemoveLiquidity } from './lp'
+import { APPROVAL_STEP_TYPES, executePlan, planZap } from './plan'
+import { quoteSwap } from './swap'
+import {
+  APWToken,
+  Error,
+  Network,
+  Options,
+  QueryParams,
+  SDKFunctionReturnType,
+  Transaction,
+  TransactionParams,
+  WithNetwork,
+  ZapInParams,
+  ZapLeg,
+  ZapOutParams,
+  ZapQuote
+} from './types'
+import { error, isError } from './utils/general'
+import { applySlippage, isValidSlippage } from './utils/swap'
+
+export type ZapInQuoteParams = ZapInParams & QueryParams & WithNetwork
+export type ZapOutQuoteParams = ZapOutParams & QueryParams & WithNetwork
+export type ZapInParamsFull = ZapInParams & TransactionParams & WithNetwork
+export type ZapOutParamsFull = ZapOutParams & TransactionParams & WithNetwork
+
+type Holdings = Record<APWToken, BigNumber>
+
+/**
+ * Quote a swap leg, and move the swapped amounts in the holdings.
+ * The holdings are credited with the slippage-bounded amount, so that the next legs never spend more than received.
+ */
+const quoteSwapLeg = async (
+  params: QueryParams &
+    WithNetwork &
+    Pick<ZapInParams, 'amm' | 'slippageTolerance'>,
+  holdings: Holdings,
+  from: APWToken,
+  to: APWToken,
+  amount: BigNumber
+): Promise<ZapLeg | Error> => {
+  const quote = await quoteSwap('IN', { ...params, from, to, amount })
+
+  if (isError(quote)) {
+    return quote
+  }
+
+  holdings[from] = holdings[from].sub(amount)
+  holdings[to] = holdings[to].add(quote.tokenAmountWithSlippage)
+
+  return { type: 'Swap', quote }
+}
+
+/**
+ * Quote a zap in: provide liquidity to a pool from a single token.
+ * IBT is first deposited in the future, other tokens are swapped into PT,
+ * then the pool tokens are rebalanced according to the pool weights before adding liquidity.
+ * The amounts are estimated from the current reserves, the slippage tolerance absorbs the price impact of the legs.
+ * @param params - ZapInQuoteParams
+ * @returns - either an error object, or a ZapQuote with the quote of every leg, where amountOut is the amount of LP tokens.
+ */
+export const quoteZapIn = async (
+  params: ZapInQuoteParams
+): Promise<ZapQuote | Error> => {
+  const { signerOrProvider, network, amm, pairId, token, slippageTolerance } =
+    params
+  const amount = BigNumber.from(params.amount)
+
+  if (!isValidSlippage(slippageTolerance)) {
+    return error('FaultySlippage')
+  }
+
+  const [ptToken, otherToken] = POOLS[pairId]
+  const legs: ZapLeg[] = []
+  const holdings: Holdings = {
+    PT: BigNumber.from(0),
+    Underlying: BigNumber.from(0),
+    FYT: BigNumber.from(0)
+  }
+
+  if (token === 'IBT') {
+    const future = getFutureVaultContract(
+      signerOrProvider,
+      await amm.getFutureAddress()
+    )
+    const ptAmount = await future.getPTPerAmountDeposited(amount)
+
+    legs.push(
+      { type: 'Deposit', future, amount, ptAmount },
+      { type: 'ClaimFYT', future, amount: ptAmount }
+    )
+    holdings.PT = ptAmount
+    holdings.FYT = ptAmount
+  } else {
+    holdings[token] = amount
+  }
+
+  const swapParams = { signerOrProvider, network, amm, slippageTolerance }
+
+  // PT is in both pools, and one hop away from every other token.
+  for (const outsideToken of APW_TOKENS.filter(
+    (apwToken) => !POOLS[pairId].includes(apwToken)
+  )) {
+    if (!holdings[outsideToken].isZero()) {
+      const leg = await quoteSwapLeg(
+        swapParams,
+        holdings,
+        outsideToken,
+        ptToken,
+        holdings[outsideToken]
+      )
+
+      if (isError(leg)) {
+        return leg
+      }
+
+      legs.push(leg)
+    }
+  }
+
+  const [{ weights, reserves, lpTotalSupply }, ptPrice] = await Promise.all([
+    fetchPoolState(signerOrProvider, network, amm, pairId),
+    getAMMRouterContract(signerOrProvider, network).getSpotPrice(
+      amm.address,
+      [pairId],
+      [1, 0]
+    )
+  ])
+
+  if (lpTotalSupply.isZero()) {
+    return error('UninitializedPool')
+  }
+
+  // The value of each side of a weighted pool is proportional to its weight.
+  const ptValue = holdings[ptToken]
+    .mul(ptPrice)
+    .div(ethers.constants.WeiPerEther)
+  const targetPTValue = ptValue
+    .add(holdings[otherToken])
+    .mul(weights[0])
+    .div(weights[0].add(weights[1]))
+
+  const excessPTValue = ptValue.sub(targetPTValue)
+  const rebalance = excessPTValue.isNegative()
+    ? { from: otherToken, to: ptToken, amount: excessPTValue.abs() }
+    : {
+        from: ptToken,
+        to: otherToken,
+        amount: excessPTValue.mul(ethers.constants.WeiPerEther).div(ptPrice)
+      }
+
+  if (!rebalance.amount.isZero()) {
+    const leg = await quoteSwapLeg(
+      swapParams,
+      holdings,
+      rebalance.from,
+      rebalance.to,
+      rebalance.amount
+    )
+
+    if (isError(leg)) {
+      return leg
+    }
+
+    legs.push(leg)
+  }
+
+  const maxAmountsIn: [BigNumber, BigNumber] = [
+    holdings[ptToken],
+    holdings[otherToken]
+  ]
+  const [ptShare, otherShare] = maxAmountsIn.map((holding, i) =>
+    holding.mul(lpTotalSupply).div(reserves[i])
+  )
+  const lpAmountOut = applySlippage(
+    ptShare.lt(otherShare) ? ptShare : otherShare,
+    -slippageTolerance
+  )
+
+  const addLiquidityQuote = await quoteAddLiquidity({
+    ...swapParams,
+    pairId,
+    amount: lpAmountOut
+  })
+
+  if (isError(addLiquidityQuote)) {
+    return addLiquidityQuote
+  }
+
+  legs.push({
+    type: 'AddLiquidity',
+    quote: { ...addLiquidityQuote, maxAmountsIn }
+  })
+
+  return {
+    direction: 'IN',
+    amm,
+    pairId,
+    token,
+    amount,
+    amountOut: lpAmountOut,
+    slippageTolerance,
+    legs
+  }
+}
+
+/**
+ * Quote a zap out: remove liquidity from a pool, and swap the pool tokens into a single token.
+ * @param params - ZapOutQuoteParams, where amount is the amount of LP tokens to burn.
+ * @returns - either an error object, or a ZapQuote with the quote of every leg, where amountOut is the minimum amount of tokens received.
+ */
+export const quoteZapOut = async (
+  params: ZapOutQuoteParams
+): Promise<ZapQuote | Error> => {
+  const { signerOrProvider, network, amm, pairId, token, slippageTolerance } =
+    params
+  const amount = BigNumber.from(params.amount)
+
+  const removeLiquidityQuote = await quoteRemoveLiquidity({
+    signerOrProvider,
+    network,
+    amm,
+    pairId,
+    amount,
+    slippageTolerance
+  })
+
+  if (isError(removeLiquidityQuote)) {
+    return removeLiquidityQuote
+  }
+
+  const legs: ZapLeg[] = [
+    { type: 'RemoveLiquidity', quote: removeLiquidityQuote }
+  ]
+  const holdings: Holdings = {
+    PT: BigNumber.from(0),
+    Underlying: BigNumber.from(0),
+    FYT: BigNumber.from(0)
+  }
+
+  POOLS[pairId].forEach((poolToken, i) => {
+    holdings[poolToken] = removeLiquidityQuote.minAmountsOut[i]
+  })
+
+  for (const poolToken of POOLS[pairId]) {
+    if (poolToken !== token && !holdings[poolToken].isZero()) {
+      const leg = await quoteSwapLeg(
+        { signerOrProvider, network, amm, slippageTolerance },
+        holdings,
+        poolToken,
+        token,
+        holdings[poolToken]
+      )
+
+      if (isError(leg)) {
+        return leg
+      }
+
+      legs.push(leg)
+    }
+  }
+
+  return {
+    direction: 'OUT',
+    amm,
+    pairId,
+    token,
+    amount,
+    amountOut: holdings[token],
+    slippageTolerance,
+    legs
+  }
+}
+
+/**
+ * Execute the legs of a zap quote, one after the other, through a Plan.
+ * Each transaction is mined before the next step is sent, and the execution stops at the first error.
+ * The swaps expire a minute after they are sent.
+ * @param signer - The signer of the account zapping.
+ * @param network - The network of the AMM.
+ * @param quote - A ZapQuote, returned by quoteZapIn or quoteZapOut.
+ * @param controller - The Controller instance, fetched if needed and not passed.
+ * @param options - With autoApprove, the approvals of every leg are executed as well.
+ * @returns - A collection of SDK returnTypes, one for each executed step.
+ */
+export const executeZap = async (
+  signer: Signer,
+  network: Network,
+  quote: ZapQuote,
+  controller?: Controller | null,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>[]> => {
+  if (!signer) {
+    return [error('NoSigner')]
+  }
+
+  const plan = await planZap(signer, network, quote, controller)
+
+  if (isError(plan)) {
+    return [plan]
+  }
+
+  const steps = options.autoApprove
+    ? plan.steps
+    : plan.steps.filter(({ type }) => !APPROVAL_STEP_TYPES.includes(type))
+  const { results } = await executePlan(signer, { steps }, {}, options)
+
+  return results
+}
+
+/**
+ * Provide liquidity to a pool from a single token.
+ * @param params - ZapInParamsFull
+ * @param controller - The Controller instance, required to approve IBT deposits automatically.
+ * @param options
+ * @returns - A collection of SDK returnTypes, one for each executed leg.
+ */
+export const zapIn = async (
+  params: ZapInParamsFull,
+  controller?: Controller | null,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>[]> => {
+  const { signer, network } = params
+
+  if (!signer) {
+    return [error('NoSigner')]
+  }
+
+  const quote = await quoteZapIn({ signerOrProvider: signer, ...params })
+
+  if (isError(quote)) {
+    return [quote]
+  }
+
+  return executeZap(signer, network, quote, controller, options)
+}
+
+/**
+ * Remove liquidity from a pool into a single token.
+ * @param params - ZapOutParamsFull, where amount is the amount of LP tokens to burn.
+ * @param options
+ * @returns - A collection of SDK returnTypes, one for each executed leg.
+ */
+export const zapOut = async (
+  params: ZapOutParamsFull,
+  options: Options = {}
+): Promise<SDKFunctionReturnType<Transaction>[]> => {
+  const { signer, network } = params
+
+  if (!signer) {
+    return [error('NoSigner')]
+  }
+
+  const quote = await quoteZapOut({ signerOrProvider: signer, ...params })
+
+  if (isError(quote)) {
+    return [quote]
+  }
+
+  return executeZap(signer, network, quote, null, options)
+}
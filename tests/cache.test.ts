@@ -0,0 +1,88 @@
+import {
+  createCache,
+  createMemoryCacheAdapter,
+  getCacheKey,
+  scopeCache,
+  syncPeriodCache,
+  withCache
+} from '../src/cache'
+
+const FUTURE = '0x0000000000000000000000000000000000000001'
+const AMM = '0x0000000000000000000000000000000000000002'
+
+describe('cache', () => {
+  it('should only fetch a field once', async () => {
+    const cache = createCache()
+    const fetchValue = jest.fn(async () => 'StakeDAO')
+
+    await withCache(cache, FUTURE, 'platform', fetchValue)
+    const value = await withCache(cache, FUTURE, 'platform', fetchValue)
+
+    expect(value).toEqual('StakeDAO')
+    expect(fetchValue).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not share entries between chains', async () => {
+    const cache = createCache()
+    const mainnet = scopeCache(cache, 1)
+    const polygon = scopeCache(cache, 137)
+
+    await withCache(mainnet, AMM, 'ptAddress', async () => '0xPT1')
+    const value = await withCache(
+      polygon,
+      AMM,
+      'ptAddress',
+      async () => '0xPT137'
+    )
+
+    expect(value).toEqual('0xPT137')
+    expect(await cache.adapter.get(getCacheKey(AMM, 'ptAddress', 1))).toEqual(
+      '0xPT1'
+    )
+  })
+
+  it('should always fetch without a cache', async () => {
+    const fetchValue = jest.fn(async () => 'StakeDAO')
+
+    await withCache(undefined, FUTURE, 'platform', fetchValue)
+    await withCache(undefined, FUTURE, 'platform', fetchValue)
+
+    expect(fetchValue).toHaveBeenCalledTimes(2)
+  })
+
+  it('should expire entries after their ttl', async () => {
+    jest.useFakeTimers()
+
+    const adapter = createMemoryCacheAdapter()
+
+    adapter.set('key', 'value', 60)
+    jest.advanceTimersByTime(59 * 1000)
+    expect(adapter.get('key')).toEqual('value')
+
+    jest.advanceTimersByTime(1000)
+    expect(adapter.get('key')).toBeUndefined()
+
+    jest.useRealTimers()
+  })
+
+  it('should invalidate the period fields when the period changes', async () => {
+    const cache = createCache()
+
+    await syncPeriodCache(cache, FUTURE, AMM, 1)
+    await withCache(cache, AMM, 'fytAddress', async () => '0xFYT1')
+    await withCache(cache, AMM, 'ptAddress', async () => '0xPT')
+
+    expect(await syncPeriodCache(cache, FUTURE, AMM, 1)).toBeFalsy()
+    expect(await cache.adapter.get(getCacheKey(AMM, 'fytAddress'))).toEqual(
+      '0xFYT1'
+    )
+
+    expect(await syncPeriodCache(cache, FUTURE, AMM, 2)).toBeTruthy()
+    expect(
+      await cache.adapter.get(getCacheKey(AMM, 'fytAddress'))
+    ).toBeUndefined()
+    expect(await cache.adapter.get(getCacheKey(AMM, 'ptAddress'))).toEqual(
+      '0xPT'
+    )
+  })
+})
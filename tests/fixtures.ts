@@ -0,0 +1,16 @@
+import { BigNumber } from 'ethers'
+import { parseEther } from 'ethers/lib/utils'
+import { PoolSnapshot } from '../src/types'
+
+/**
+ * A pool of two equally weighted tokens, with a 0.3% swap fee and 100 LP tokens.
+ */
+export const createPool = (reserves: [string, string]): PoolSnapshot => ({
+  reserves: reserves.map((reserve) => parseEther(reserve)) as [
+    BigNumber,
+    BigNumber
+  ],
+  weights: [parseEther('0.5'), parseEther('0.5')],
+  swapFee: parseEther('0.003'),
+  lpTotalSupply: parseEther('100')
+})
@@ -0,0 +1,111 @@
+import { AMM } from '@apwine/amm'
+import { JsonRpcProvider, Provider } from '@ethersproject/providers'
+import { BigNumber } from 'ethers'
+import { createCache } from '../src/cache'
+import {
+  getAMMRegistryContract,
+  getControllerContract,
+  getFutureVaultContract,
+  getRegistryContract
+} from '../src/contracts'
+import { fetchAllAMMs, fetchAMMPeriods } from '../src/futures'
+
+jest.mock('../src/contracts')
+
+const ADDRESS = '0x0000000000000000000000000000000000000001'
+
+// The AMM switched to its periods 1 and 2 at the blocks 100 and 200.
+const switches = [
+  { periodIndex: 1, blockNumber: 100, timestamp: 1000 },
+  { periodIndex: 2, blockNumber: 200, timestamp: 2000 }
+]
+
+const amm = {
+  getFutureAddress: async () => ADDRESS,
+  ammId: async () => BigNumber.from(0),
+  currentPeriodIndex: async () => BigNumber.from(2),
+  getPTAddress: async () => ADDRESS,
+  // The first reserve is the block of the reserves, 0 for the latest one.
+  getPairWithID: async (
+    pairId: number,
+    { blockTag = 0 }: { blockTag?: number } = {}
+  ) => ({ balances: [BigNumber.from(blockTag), BigNumber.from(pairId)] }),
+  getLPTokenId: async () => BigNumber.from(0),
+  getTotalSupplyWithTokenId: async () => BigNumber.from(0),
+  filters: { PeriodSwitched: () => ({}) },
+  queryFilter: async () =>
+    switches.map(({ periodIndex, blockNumber, timestamp }) => ({
+      args: { _newPeriodIndex: BigNumber.from(periodIndex) },
+      blockNumber,
+      getBlock: async () => ({ timestamp })
+    }))
+} as unknown as AMM
+
+const provider = {
+  getBlockNumber: async () => 250
+} as unknown as Provider
+
+describe('futures', () => {
+  beforeEach(() => {
+    ;(getControllerContract as jest.Mock).mockResolvedValue({
+      getNextPeriodStart: async () => BigNumber.from(3000)
+    })
+    ;(getFutureVaultContract as jest.Mock).mockReturnValue({
+      getCurrentPeriodIndex: async () => BigNumber.from(2),
+      PERIOD_DURATION: async () => BigNumber.from(1000),
+      getFYTofPeriod: async () => ADDRESS
+    })
+  })
+
+  it('should read past periods from their switches', async () => {
+    const periods = await fetchAMMPeriods(provider, 'mainnet', amm, null, {
+      fromBlock: 0
+    })
+
+    expect(
+      periods.map(({ startTimestamp, endTimestamp, reserves }) => [
+        startTimestamp?.toNumber() ?? null,
+        endTimestamp?.toNumber() ?? null,
+        reserves && reserves[0][0].toNumber()
+      ])
+    ).toEqual([
+      // The start of the first period is before its first switch.
+      [null, 1000, 99],
+      [1000, 2000, 199],
+      [2000, 3000, 0]
+    ])
+  })
+
+  it('should not guess past periods without a block range', async () => {
+    const periods = await fetchAMMPeriods(provider, 'mainnet', amm, null)
+
+    expect(periods[1]).toMatchObject({
+      startTimestamp: null,
+      endTimestamp: null,
+      reserves: null
+    })
+    expect(periods[2].startTimestamp?.toNumber()).toEqual(2000)
+  })
+
+  it('should cache the AMM addresses of every vault', async () => {
+    const getFutureAMMPool = jest.fn(async () => ADDRESS)
+
+    ;(getRegistryContract as jest.Mock).mockReturnValue({
+      futureVaultCount: async () => BigNumber.from(2),
+      getFutureVaultAt: async (index: number) =>
+        `0x${String(index + 2).padStart(40, '0')}`
+    })
+    ;(getAMMRegistryContract as jest.Mock).mockReturnValue({
+      getFutureAMMPool
+    })
+
+    const cache = createCache()
+    const provider = new JsonRpcProvider()
+
+    await fetchAllAMMs(provider, 'mainnet', cache)
+    const amms = await fetchAllAMMs(provider, 'mainnet', cache)
+
+    expect(amms.map((amm) => amm.address)).toEqual([ADDRESS, ADDRESS])
+    expect(getFutureAMMPool).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,198 @@
+import { AMM } from '@apwine/amm'
+import { FutureVault, FutureYieldToken__factory } from '@apwine/protocol'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber } from 'ethers'
+import { fetchAMM } from '../src/futures'
+import { fetchFYTAddressOfPeriod } from '../src/fyt'
+import { fetchFutureHistory, sortHistory } from '../src/history'
+import { queryPaginated } from '../src/utils/general'
+import { HistoryRecord } from '../src/types'
+
+jest.mock('../src/futures')
+jest.mock('../src/fyt')
+
+const address = (index: number) => `0x${String(index).padStart(40, '0')}`
+
+const USER = address(1)
+const OTHER = address(2)
+const ROUTER = address(3)
+// The FYT of each period has the address of its index plus 10.
+const FYT = address(12)
+
+// The stubbed contracts return the events of each filter, named after it.
+const stub = (contractAddress: string, events: Record<string, unknown[]>) => ({
+  address: contractAddress,
+  filters: new Proxy({}, { get: (_, name) => () => name }),
+  queryFilter: async (name: string) => events[name] ?? []
+})
+
+const log = (blockNumber: number, args: Record<string, unknown>) => ({
+  blockNumber,
+  transactionHash: '0x',
+  logIndex: 0,
+  args
+})
+
+const swap = (blockNumber: number, user: string, to: string) =>
+  log(blockNumber, {
+    _user: user,
+    _to: to,
+    _pairID: BigNumber.from(0),
+    _tokenInID: BigNumber.from(1),
+    _tokenOutID: BigNumber.from(0),
+    _tokenAmountIn: BigNumber.from(10),
+    _tokenAmountOut: BigNumber.from(11)
+  })
+
+// The future switched to its periods 2 and 3 at the blocks 150 and 250.
+const future = stub(address(5), {
+  FundsDeposited: [
+    log(110, { _user: USER, _amount: BigNumber.from(1) }),
+    log(120, { _user: OTHER, _amount: BigNumber.from(2) })
+  ],
+  NewPeriodStarted: [
+    log(150, { _newPeriodIndex: BigNumber.from(2) }),
+    log(250, { _newPeriodIndex: BigNumber.from(3) })
+  ]
+})
+const amm = stub(address(6), {
+  // The user swaps through the router, then the other account swaps directly.
+  Swapped: [swap(130, ROUTER, USER), swap(140, OTHER, OTHER)]
+})
+const fytEvents = {
+  Transfer: [log(160, { to: USER, value: BigNumber.from(3) })]
+}
+
+const provider = {
+  getBlockNumber: async () => 300
+} as unknown as Provider
+
+const record = (blockNumber: number, logIndex: number): HistoryRecord => ({
+  type: 'Deposit',
+  user: '0x0000000000000000000000000000000000000001',
+  future: '0x0000000000000000000000000000000000000002',
+  blockNumber,
+  transactionHash: '0x',
+  logIndex,
+  amount: BigNumber.from(1)
+})
+
+describe('history', () => {
+  describe('queryPaginated', () => {
+    it('should query the whole range, one page after the other', async () => {
+      const pages: [number, number][] = []
+
+      const events = await queryPaginated(
+        async (fromBlock, toBlock) => {
+          pages.push([fromBlock, toBlock])
+          return [fromBlock]
+        },
+        100,
+        349,
+        100
+      )
+
+      expect(pages).toEqual([
+        [100, 199],
+        [200, 299],
+        [300, 349]
+      ])
+      expect(events).toEqual([100, 200, 300])
+    })
+
+    it('should not query an empty range', async () => {
+      const events = await queryPaginated(async () => [1], 10, 9)
+
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('fetchFutureHistory', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+      ;(fetchAMM as jest.Mock).mockResolvedValue(amm as unknown as AMM)
+      ;(fetchFYTAddressOfPeriod as jest.Mock).mockImplementation(
+        async (_, periodIndex: number) => address(periodIndex + 10)
+      )
+      jest
+        .spyOn(FutureYieldToken__factory, 'connect')
+        .mockImplementation(
+          (fytAddress) =>
+            stub(fytAddress, fytAddress === FYT ? fytEvents : {}) as never
+        )
+    })
+
+    const fetchHistory = (account?: string) =>
+      fetchFutureHistory(
+        provider,
+        'mainnet',
+        {
+          ...future,
+          getCurrentPeriodIndex: async () => BigNumber.from(3)
+        } as unknown as FutureVault,
+        { account, fromBlock: 100, toBlock: 200 }
+      )
+
+    it('should only keep the records of the account', async () => {
+      const records = await fetchHistory(USER)
+
+      expect(records.map(({ type, user }) => [type, user])).toEqual([
+        ['Deposit', USER],
+        ['Swap', USER],
+        ['ClaimFYT', USER]
+      ])
+    })
+
+    it('should record swaps through the router for their recipient', async () => {
+      const records = await fetchHistory()
+
+      expect(
+        records
+          .filter(({ type }) => type === 'Swap')
+          .map((record) => record.user)
+      ).toEqual([USER, OTHER])
+      expect(records[2]).toMatchObject({
+        type: 'Swap',
+        amm: amm.address,
+        tokenIn: 'Underlying',
+        tokenOut: 'PT',
+        amountIn: BigNumber.from(10)
+      })
+    })
+
+    it('should map FYT mints of the periods of the range to claims', async () => {
+      const records = await fetchHistory(USER)
+
+      expect(records[2]).toMatchObject({
+        type: 'ClaimFYT',
+        future: future.address,
+        fytAddress: FYT,
+        amount: BigNumber.from(3)
+      })
+      // The range starts in the period 1 and ends in the period 2.
+      expect(
+        (fetchFYTAddressOfPeriod as jest.Mock).mock.calls.map(
+          ([, periodIndex]) => periodIndex
+        )
+      ).toEqual([1, 2])
+      expect(FutureYieldToken__factory.connect).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('sortHistory', () => {
+    it('should order records by block and log index', () => {
+      const records = [record(2, 0), record(1, 3), record(1, 1)]
+
+      expect(
+        sortHistory(records).map(({ blockNumber, logIndex }) => [
+          blockNumber,
+          logIndex
+        ])
+      ).toEqual([
+        [1, 1],
+        [1, 3],
+        [2, 0]
+      ])
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import { BigNumber } from 'ethers'
+import { parseEther } from 'ethers/lib/utils'
+import { MaxRatioExceededError, UninitializedPoolError } from '../src/errors'
+import { LocalSwapQuote } from '../src/types'
+import { isError } from '../src/utils/general'
+import {
+  bpow,
+  calcInGivenOut,
+  calcOutGivenIn,
+  calcSpotPrice,
+  calcSwapFee,
+  calcTokensInGivenLPOut,
+  calcTokensOutGivenLPIn,
+  quoteSwapFromPools
+} from '../src/utils/math'
+import { createPool } from './fixtures'
+
+const HALF = parseEther('0.5')
+const FEE = parseEther('0.003')
+
+// The on-chain powers are approximated to 1e-10, vectors are checked to 1e-9.
+const expectClose = (actual: BigNumber, expected: string) => {
+  const diff = actual.sub(expected).abs()
+
+  expect(diff.mul(10 ** 9).lte(expected)).toBeTruthy()
+}
+
+describe('math', () => {
+  describe('weighted pool formulas', () => {
+    it('should compute the spot price, fees included', () => {
+      expect(
+        calcSpotPrice(parseEther('100'), HALF, parseEther('200'), HALF, 0)
+      ).toEqual(parseEther('0.5'))
+      expect(
+        calcSpotPrice(parseEther('100'), HALF, parseEther('200'), HALF, FEE)
+      ).toEqual(BigNumber.from('501504513540621866'))
+      expect(calcSwapFee(parseEther('10'), FEE)).toEqual(parseEther('0.03'))
+    })
+
+    it('should raise to whole and fractional powers', () => {
+      expect(bpow(parseEther('1.5'), parseEther('2'))).toEqual(
+        parseEther('2.25')
+      )
+      expectClose(bpow(parseEther('0.25'), HALF), parseEther('0.5').toString())
+    })
+
+    it('should match the out-given-in vectors', () => {
+      const vectors: [string, string, string][] = [
+        ['0.5', '0.5', '19743160687941225977'],
+        ['0.8', '0.2', '77810942311520192202'],
+        ['0.3', '0.7', '8485343610640770451']
+      ]
+
+      for (const [weightIn, weightOut, amountOut] of vectors) {
+        expectClose(
+          calcOutGivenIn(
+            parseEther('1000'),
+            parseEther(weightIn),
+            parseEther('2000'),
+            parseEther(weightOut),
+            parseEther('10'),
+            FEE
+          ),
+          amountOut
+        )
+      }
+    })
+
+    it('should match the in-given-out vectors', () => {
+      expectClose(
+        calcInGivenOut(
+          parseEther('1000'),
+          parseEther('0.3'),
+          parseEther('2000'),
+          parseEther('0.7'),
+          parseEther('10'),
+          FEE
+        ),
+        '11799995747524283647'
+      )
+    })
+
+    it('should split LP tokens into shares of the reserves', () => {
+      const reserves: [BigNumber, BigNumber] = [
+        parseEther('1000'),
+        parseEther('30')
+      ]
+
+      expect(
+        calcTokensInGivenLPOut(reserves, parseEther('100'), parseEther('1'))
+      ).toEqual([parseEther('10'), parseEther('0.3')])
+      expect(
+        calcTokensOutGivenLPIn(reserves, parseEther('100'), parseEther('50'))
+      ).toEqual([parseEther('500'), parseEther('15')])
+    })
+  })
+
+  describe('quoteSwapFromPools', () => {
+    const poolStates = {
+      0: createPool(['1000', '950']),
+      1: createPool(['1000', '80'])
+    }
+
+    it('should quote a multi-hop route through every pool', () => {
+      const quote = quoteSwapFromPools(
+        poolStates,
+        'IN',
+        'Underlying',
+        'FYT',
+        parseEther('10')
+      ) as LocalSwapQuote
+
+      expect(quote.poolPath).toEqual([0, 1])
+      expect(quote.tokenPath).toEqual([1, 0, 0, 1])
+
+      const ptAmount = calcOutGivenIn(
+        parseEther('950'),
+        HALF,
+        parseEther('1000'),
+        HALF,
+        parseEther('10'),
+        FEE
+      )
+
+      expect(quote.amountOut).toEqual(
+        calcOutGivenIn(
+          parseEther('1000'),
+          HALF,
+          parseEther('80'),
+          HALF,
+          ptAmount,
+          FEE
+        )
+      )
+      expect(quote.spotPriceAfter.gt(quote.spotPriceBefore)).toBeTruthy()
+      expect(quote.priceImpact).toBeGreaterThan(0)
+
+      const reverse = quoteSwapFromPools(
+        poolStates,
+        'OUT',
+        'Underlying',
+        'FYT',
+        quote.amountOut
+      ) as LocalSwapQuote
+
+      expectClose(reverse.amountIn, parseEther('10').toString())
+      expect(reverse.spotPriceBefore).toEqual(quote.spotPriceBefore)
+    })
+
+    it('should reject trades too large for the pools', () => {
+      const quote = quoteSwapFromPools(
+        poolStates,
+        'OUT',
+        'PT',
+        'FYT',
+        parseEther('30')
+      )
+
+      expect(isError(quote) && quote.error).toBeInstanceOf(
+        MaxRatioExceededError
+      )
+    })
+
+    it('should reject amounts out at or above the reserve', () => {
+      for (const amount of ['950', '2000']) {
+        const quote = quoteSwapFromPools(
+          poolStates,
+          'OUT',
+          'PT',
+          'Underlying',
+          parseEther(amount)
+        )
+
+        expect(isError(quote) && quote.error).toBeInstanceOf(
+          MaxRatioExceededError
+        )
+      }
+    })
+
+    it('should reject uninitialized pools', () => {
+      const quote = quoteSwapFromPools(
+        {
+          ...poolStates,
+          1: { ...poolStates[1], lpTotalSupply: BigNumber.from(0) }
+        },
+        'IN',
+        'PT',
+        'FYT',
+        parseEther('1')
+      )
+
+      expect(isError(quote) && quote.error).toBeInstanceOf(
+        UninitializedPoolError
+      )
+    })
+  })
+})
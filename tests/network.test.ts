@@ -0,0 +1,135 @@
+import { providers } from '@0xsequence/multicall'
+import { StaticJsonRpcProvider } from '@ethersproject/providers'
+import { Wallet } from 'ethers'
+import APWineSDK from '../src'
+import * as contracts from '../src/contracts'
+import { NetworkMismatchError, UnsupportedNetworkError } from '../src/errors'
+import { getNetworkConfig, isError } from '../src/utils/general'
+
+// The chain id is static, so no request reaches the node.
+const createProvider = (chainId: number, name: string) =>
+  new StaticJsonRpcProvider('http://localhost:8545', { chainId, name })
+
+describe('network', () => {
+  it('should detect the network from the provider', async () => {
+    const sdk = await APWineSDK.fromProvider(
+      { provider: createProvider(137, 'matic') },
+      { initialize: false }
+    )
+
+    expect(sdk.network).toEqual('polygon')
+    expect(sdk.Router.address).toEqual(getNetworkConfig('polygon').AMM_ROUTER)
+    await expect(sdk.checkNetwork()).resolves.toEqual(137)
+  })
+
+  it('should refuse chains which are not supported', async () => {
+    await expect(
+      APWineSDK.fromProvider(
+        { provider: createProvider(5, 'goerli') },
+        { initialize: false }
+      )
+    ).rejects.toBeInstanceOf(UnsupportedNetworkError)
+  })
+
+  it('should only reject sdk.ready on a network mismatch', async () => {
+    const onUnhandledRejection = jest.fn()
+
+    jest
+      .spyOn(contracts, 'getControllerContract')
+      .mockResolvedValue({} as never)
+    process.on('unhandledRejection', onUnhandledRejection)
+
+    const sdk = new APWineSDK({
+      network: 'mainnet',
+      provider: createProvider(137, 'matic'),
+      networkMismatch: 'error'
+    })
+
+    await expect(sdk.ready).rejects.toBeInstanceOf(NetworkMismatchError)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    process.off('unhandledRejection', onUnhandledRejection)
+
+    expect(onUnhandledRejection).not.toHaveBeenCalled()
+  })
+
+  it('should report a provider or a signer on another chain', async () => {
+    const sdk = new APWineSDK(
+      { network: 'mainnet', provider: createProvider(137, 'matic') },
+      { initialize: false }
+    )
+    const result = await sdk.checkNetwork()
+
+    expect(isError(result) && result.error).toBeInstanceOf(
+      NetworkMismatchError
+    )
+    expect(isError(result) && result.error).toMatchObject({
+      expectedChainId: 1,
+      chainId: 137,
+      source: 'provider'
+    })
+
+    const signer = new Wallet(
+      '0x0123456789012345678901234567890123456789012345678901234567890123',
+      createProvider(1, 'homestead')
+    )
+    const signerSDK = new APWineSDK(
+      { network: 'polygon', provider: createProvider(137, 'matic'), signer },
+      { initialize: false }
+    )
+
+    await expect(signerSDK.checkNetwork()).resolves.toMatchObject({
+      error: { chainId: 1, source: 'signer' }
+    })
+  })
+
+  it('should rebuild the contract instances on network updates', async () => {
+    const sdk = new APWineSDK(
+      { network: 'polygon', provider: createProvider(137, 'matic') },
+      { initialize: false }
+    )
+    const unsubscribe = jest.fn()
+
+    sdk.subscriptions.add({ unsubscribe })
+    jest.spyOn(sdk, 'initialize').mockResolvedValue([] as never)
+    sdk.updateNetwork('mainnet')
+
+    const mainnet = getNetworkConfig('mainnet')
+
+    expect(sdk.network).toEqual('mainnet')
+    expect(sdk.AMMRegistry.address).toEqual(mainnet.AMM_REGISTRY)
+    expect(sdk.Registry.address).toEqual(mainnet.REGISTRY_ADDRESS)
+    expect(sdk.Router.address).toEqual(mainnet.AMM_ROUTER)
+    expect(sdk.Controller).toBeNull()
+    expect(sdk.cache?.chainId).toEqual(1)
+    expect(sdk.initialize).toHaveBeenCalled()
+    expect(unsubscribe).toHaveBeenCalled()
+    expect(() => sdk.updateNetwork('goerli')).toThrow(UnsupportedNetworkError)
+  })
+
+  it('should wrap, check and watch a new provider', async () => {
+    const polygon = createProvider(137, 'matic')
+    const mainnet = createProvider(1, 'homestead')
+    const sdk = new APWineSDK(
+      { network: 'polygon', provider: polygon, networkMismatch: 'error' },
+      { initialize: false }
+    )
+
+    for (const provider of [polygon, mainnet]) {
+      jest.spyOn(provider, 'on').mockReturnValue(provider)
+      jest.spyOn(provider, 'off').mockReturnValue(provider)
+    }
+
+    const { unsubscribe } = sdk.watchNetwork()
+
+    await expect(sdk.updateProvider(mainnet)).rejects.toBeInstanceOf(
+      NetworkMismatchError
+    )
+    expect(sdk.provider).toBeInstanceOf(providers.MulticallProvider)
+    expect(polygon.off).toHaveBeenCalledWith('network', expect.any(Function))
+    expect(mainnet.on).toHaveBeenCalledWith('network', expect.any(Function))
+
+    unsubscribe()
+
+    expect(mainnet.off).toHaveBeenCalledWith('network', expect.any(Function))
+  })
+})
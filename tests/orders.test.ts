@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events'
+import { AMM } from '@apwine/amm'
+import { Provider } from '@ethersproject/providers'
+import { VoidSigner } from 'ethers'
+import { parseEther } from 'ethers/lib/utils'
+import { isConditionMet, watchOrder } from '../src/orders'
+import { executeSwap, fetchSpotPrice, quoteSwap } from '../src/swap'
+import { ConditionalOrder, SwapQuote } from '../src/types'
+
+jest.mock('../src/contracts')
+jest.mock('../src/swap')
+
+const signer = new VoidSigner('0x0000000000000000000000000000000000000001')
+
+// Settle the pending evaluations, which only chain promises.
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve()
+  }
+}
+
+const createOrder = (expiry?: Date): ConditionalOrder => ({
+  amm: { getFutureAddress: async () => '0x' } as unknown as AMM,
+  from: 'FYT',
+  to: 'PT',
+  swapType: 'IN',
+  amount: parseEther('1'),
+  condition: { type: 'spotPrice', below: parseEther('10') },
+  maxSlippage: 0.5,
+  expiry
+})
+
+describe('orders', () => {
+  it('should check the bounds of a condition', () => {
+    const condition = {
+      type: 'spotPrice',
+      above: parseEther('1'),
+      below: parseEther('2')
+    } as const
+
+    expect(isConditionMet(condition, parseEther('1.5'))).toBeTruthy()
+    expect(isConditionMet(condition, parseEther('2.5'))).toBeFalsy()
+    expect(isConditionMet(condition, parseEther('0.5'))).toBeFalsy()
+    expect(isConditionMet({ type: 'fixedAPY', above: 5 }, 6.2)).toBeTruthy()
+    expect(isConditionMet({ type: 'fixedAPY', above: 5 }, 4.8)).toBeFalsy()
+  })
+
+  it('should expire orders and stop watching blocks', async () => {
+    const provider = new EventEmitter()
+    const listener = jest.fn()
+
+    watchOrder(
+      signer,
+      provider as unknown as Provider,
+      'mainnet',
+      createOrder(new Date(Date.now() - 1000)),
+      listener
+    )
+    await flush()
+
+    expect(listener).toHaveBeenCalledWith({ status: 'Expired' })
+    expect(provider.listenerCount('block')).toEqual(0)
+  })
+
+  it('should stop watching blocks once cancelled', () => {
+    const provider = new EventEmitter()
+    const { unsubscribe } = watchOrder(
+      signer,
+      provider as unknown as Provider,
+      'mainnet',
+      createOrder(new Date(Date.now() - 1000)),
+      jest.fn()
+    )
+
+    expect(provider.listenerCount('block')).toEqual(1)
+
+    unsubscribe()
+
+    expect(provider.listenerCount('block')).toEqual(0)
+  })
+
+  it('should not execute the swap of an order cancelled while it is quoted', async () => {
+    const provider = new EventEmitter()
+    const listener = jest.fn()
+    let resolveQuote: (quote: SwapQuote) => void = () => undefined
+
+    ;(fetchSpotPrice as jest.Mock).mockResolvedValue(parseEther('5'))
+    ;(quoteSwap as jest.Mock).mockReturnValue(
+      new Promise((resolve) => (resolveQuote = resolve))
+    )
+
+    const { unsubscribe } = watchOrder(
+      signer,
+      provider as unknown as Provider,
+      'mainnet',
+      createOrder(),
+      listener
+    )
+    await flush()
+
+    expect(quoteSwap).toHaveBeenCalled()
+
+    unsubscribe()
+    resolveQuote({ priceImpact: 0.1 } as SwapQuote)
+    await flush()
+
+    expect(executeSwap).not.toHaveBeenCalled()
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,129 @@
+import { BigNumber, ethers } from 'ethers'
+import { createCache } from '../src/cache'
+import { ContractError, PermitNotSupportedError } from '../src/errors'
+import { isPermitSupported, PERMIT_ABI, signPermit } from '../src/permit'
+import { PermitSignature } from '../src/types'
+import { isError } from '../src/utils/general'
+
+const TOKEN = '0x' + '11'.repeat(20)
+const SPENDER = '0x' + '22'.repeat(20)
+const PRIVATE_KEY = '0x' + '33'.repeat(32)
+const permitInterface = new ethers.utils.Interface(PERMIT_ABI)
+
+const createProvider = (domainSeparator: string) => {
+  const provider = new ethers.providers.JsonRpcProvider()
+  const results: Record<string, unknown> = {
+    name: 'Token',
+    nonces: BigNumber.from(3),
+    DOMAIN_SEPARATOR: domainSeparator
+  }
+
+  jest
+    .spyOn(provider, 'getNetwork')
+    .mockResolvedValue({ chainId: 1, name: 'homestead' })
+  const call = jest.spyOn(provider, 'call').mockImplementation(async (tx) => {
+    const { name } = permitInterface.parseTransaction({
+      data: (await tx.data) as string
+    })
+
+    if (!(name in results)) {
+      throw new Error('call revert exception')
+    }
+
+    return permitInterface.encodeFunctionResult(name, [results[name]])
+  })
+
+  return { provider, call }
+}
+
+describe('permit', () => {
+  const domain = {
+    name: 'Token',
+    version: '1',
+    chainId: 1,
+    verifyingContract: ethers.utils.getAddress(TOKEN)
+  }
+
+  it('should sign a permit of the token domain', async () => {
+    const { provider } = createProvider(
+      ethers.utils._TypedDataEncoder.hashDomain(domain)
+    )
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider)
+    const deadline = new Date(1700000000000)
+
+    const signature = (await signPermit(
+      wallet,
+      TOKEN,
+      SPENDER,
+      1000,
+      deadline
+    )) as PermitSignature
+
+    expect(signature.nonce.toNumber()).toEqual(3)
+    expect(signature.deadline.toNumber()).toEqual(1700000000)
+
+    const { owner, spender, value, nonce } = signature
+    const signer = ethers.utils.verifyTypedData(
+      domain,
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' }
+        ]
+      },
+      { owner, spender, value, nonce, deadline: signature.deadline },
+      signature
+    )
+
+    expect(signer).toEqual(wallet.address)
+  })
+
+  it('should not sign a permit of another domain', async () => {
+    const { provider } = createProvider(
+      ethers.utils._TypedDataEncoder.hashDomain({ ...domain, version: '2' })
+    )
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider)
+
+    const result = await signPermit(wallet, TOKEN, SPENDER, 1000)
+
+    expect(isError(result)).toBeTruthy()
+    expect(isError(result) && result.error).toBeInstanceOf(
+      PermitNotSupportedError
+    )
+  })
+
+  it('should return a rejected signature as it is', async () => {
+    const { provider } = createProvider(
+      ethers.utils._TypedDataEncoder.hashDomain(domain)
+    )
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider)
+    const rejection = Object.assign(new Error('user rejected signing'), {
+      code: 'ACTION_REJECTED'
+    })
+
+    jest.spyOn(wallet, '_signTypedData').mockRejectedValue(rejection)
+
+    const result = await signPermit(wallet, TOKEN, SPENDER, 1000)
+
+    expect(isError(result) && result.error).toBeInstanceOf(ContractError)
+    expect(isError(result) && result.error).toMatchObject({
+      originalError: rejection
+    })
+  })
+
+  it('should detect and cache permit support', async () => {
+    const { provider, call } = createProvider(ethers.constants.HashZero)
+    const cache = createCache()
+
+    expect(await isPermitSupported(provider, TOKEN, cache)).toBeTruthy()
+    expect(await isPermitSupported(provider, TOKEN, cache)).toBeTruthy()
+    expect(call).toHaveBeenCalledTimes(2)
+
+    call.mockRejectedValue(new Error('call revert exception'))
+
+    expect(await isPermitSupported(provider, SPENDER)).toBeFalsy()
+  })
+})
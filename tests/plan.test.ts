@@ -0,0 +1,182 @@
+import { AMM } from '@apwine/amm'
+import { BigNumber, ContractTransaction, VoidSigner } from 'ethers'
+import { ContractError } from '../src/errors'
+import { executePlan, planSwap } from '../src/plan'
+import { executeSwap } from '../src/swap'
+import { Plan, PlanEvent, PlanStep, SwapQuote } from '../src/types'
+import { error, isError } from '../src/utils/general'
+
+jest.mock('../src/swap', () => ({
+  ...jest.requireActual('../src/swap'),
+  executeSwap: jest.fn(async () => ({ transaction: undefined }))
+}))
+
+const signer = new VoidSigner('0x0000000000000000000000000000000000000001')
+
+const sentStep = (calls: string[], name: string): PlanStep => ({
+  type: 'Swap',
+  description: name,
+  execute: async () => {
+    calls.push(`send ${name}`)
+
+    return {
+      transaction: {
+        wait: async () => {
+          calls.push(`mined ${name}`)
+          return {}
+        }
+      } as unknown as ContractTransaction
+    }
+  }
+})
+
+describe('executePlan', () => {
+  it('should wait for every step to be mined before sending the next one', async () => {
+    const calls: string[] = []
+    const execution = await executePlan(signer, {
+      steps: [sentStep(calls, 'approve'), sentStep(calls, 'swap')]
+    })
+
+    expect(execution.completed).toBeTruthy()
+    expect(execution.nextStep).toEqual(2)
+    expect(calls).toEqual([
+      'send approve',
+      'mined approve',
+      'send swap',
+      'mined swap'
+    ])
+  })
+
+  it('should emit progress events, and skip steps without a transaction', async () => {
+    const events: PlanEvent['type'][] = []
+
+    await executePlan(
+      signer,
+      {
+        steps: [
+          {
+            type: 'Approval',
+            description: 'approve',
+            execute: async () => ({ transaction: undefined })
+          },
+          sentStep([], 'swap')
+        ]
+      },
+      { onProgress: ({ type }) => events.push(type) }
+    )
+
+    expect(events).toEqual([
+      'StepStarted',
+      'StepSkipped',
+      'StepStarted',
+      'StepSent',
+      'StepConfirmed'
+    ])
+  })
+
+  it('should stop at a failed step, and resume from it', async () => {
+    const calls: string[] = []
+    let attempts = 0
+    const plan = {
+      steps: [
+        sentStep(calls, 'approve'),
+        {
+          type: 'Swap' as const,
+          description: 'swap',
+          execute: async () => {
+            attempts++
+            return attempts === 1
+              ? error('InvalidSwapRoute')
+              : sentStep(calls, 'swap').execute(signer, {})
+          }
+        }
+      ]
+    }
+
+    const failed = await executePlan(signer, plan)
+
+    expect(failed.completed).toBeFalsy()
+    expect(failed.nextStep).toEqual(1)
+    expect(isError(failed.results[1])).toBeTruthy()
+
+    const resumed = await executePlan(signer, plan, {
+      fromStep: failed.nextStep
+    })
+
+    expect(resumed.completed).toBeTruthy()
+    expect(calls).toEqual([
+      'send approve',
+      'mined approve',
+      'send swap',
+      'mined swap'
+    ])
+  })
+
+  it('should return a thrown failure, and the step to resume from', async () => {
+    const events: PlanEvent['type'][] = []
+    const failure = new Error('could not detect network')
+    const execution = await executePlan(
+      signer,
+      {
+        steps: [
+          sentStep([], 'approve'),
+          {
+            type: 'Swap',
+            description: 'swap',
+            execute: () => Promise.reject(failure)
+          }
+        ]
+      },
+      { onProgress: ({ type }) => events.push(type) }
+    )
+
+    expect(execution.completed).toBeFalsy()
+    expect(execution.nextStep).toEqual(1)
+    const [, result] = execution.results
+
+    expect(isError(result) && result.error).toBeInstanceOf(ContractError)
+    expect(result).toMatchObject({ error: { originalError: failure } })
+    expect(events.slice(-1)).toEqual(['StepFailed'])
+  })
+})
+
+describe('planSwap', () => {
+  const quote = {
+    amm: {
+      address: '0x0000000000000000000000000000000000000002',
+      getPTAddress: async () => '0x0000000000000000000000000000000000000003'
+    } as unknown as AMM,
+    from: 'PT',
+    to: 'Underlying',
+    amountIn: BigNumber.from(100),
+    amountOut: BigNumber.from(90),
+    // Quoted long before the previous steps of the plan were mined.
+    deadline: 1
+  } as SwapQuote
+
+  const executeSwapStep = async (plan: Plan | ReturnType<typeof error>) => {
+    if (isError(plan)) {
+      throw plan.error
+    }
+
+    await executePlan(signer, plan, { fromStep: 1 })
+
+    return (executeSwap as jest.Mock).mock.calls.pop()[2] as SwapQuote
+  }
+
+  it('should set the deadline of the swap when it is sent', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    const { deadline } = await executeSwapStep(await planSwap('mainnet', quote))
+
+    expect(deadline - now).toBeGreaterThanOrEqual(60)
+    expect(deadline - now).toBeLessThanOrEqual(61)
+  })
+
+  it('should use the deadline of the plan', async () => {
+    const { deadline } = await executeSwapStep(
+      await planSwap('mainnet', quote, new Date(1650000000000))
+    )
+
+    expect(deadline).toEqual(1650000000)
+  })
+})
@@ -0,0 +1,273 @@
+import { Provider } from '@ethersproject/providers'
+import { BigNumber, ethers } from 'ethers'
+import { fetchUserHistory } from '../src/history'
+import { fetchPoolState } from '../src/lp'
+import {
+  computeFuturePnL,
+  computePnL,
+  fetchPnL,
+  getHistoryRecordKey
+} from '../src/pnl'
+import { fetchPortfolio } from '../src/portfolio'
+import { fetchRedeemablePositions } from '../src/redeem'
+import { HistoryRecord, PnLPositionInput } from '../src/types'
+
+jest.mock('../src/history')
+jest.mock('../src/lp')
+jest.mock('../src/portfolio')
+jest.mock('../src/redeem')
+
+const ONE = ethers.constants.WeiPerEther
+const ZERO = BigNumber.from(0)
+const USER = '0x0000000000000000000000000000000000000001'
+const FUTURE = '0x0000000000000000000000000000000000000002'
+const OTHER_FUTURE = '0x0000000000000000000000000000000000000003'
+
+const units = (amount: number) => ONE.mul(amount)
+
+const base = (logIndex: number, future = FUTURE) => ({
+  user: USER,
+  future,
+  blockNumber: 1,
+  transactionHash: '0x',
+  logIndex
+})
+
+const swap = (
+  logIndex: number,
+  tokenIn: 'PT' | 'FYT' | 'Underlying',
+  tokenOut: 'PT' | 'FYT' | 'Underlying',
+  amountIn: BigNumber,
+  amountOut: BigNumber
+): HistoryRecord => ({
+  ...base(logIndex),
+  type: 'Swap',
+  amm: '0x',
+  pairId: tokenIn === 'FYT' || tokenOut === 'FYT' ? 1 : 0,
+  tokenIn,
+  tokenOut,
+  amountIn,
+  amountOut
+})
+
+const position = (
+  overrides: Partial<PnLPositionInput> = {}
+): PnLPositionInput => ({
+  future: FUTURE,
+  prices: { PT: ONE, FYT: ZERO, LP: [ZERO, ZERO] },
+  balances: { PT: ZERO, FYT: ZERO, LP: [ZERO, ZERO] },
+  accruedYield: ZERO,
+  ...overrides
+})
+
+describe('pnl', () => {
+  it('should realise the PnL of sold tokens, at their average cost', () => {
+    const records = [
+      swap(0, 'Underlying', 'PT', units(90), units(100)),
+      swap(1, 'Underlying', 'PT', units(110), units(100)),
+      swap(2, 'PT', 'Underlying', units(100), units(120))
+    ]
+
+    const { tokens, realisedPnL } = computeFuturePnL(
+      records,
+      position({
+        prices: { PT: units(1), FYT: ZERO, LP: [ZERO, ZERO] },
+        balances: { PT: units(100), FYT: ZERO, LP: [ZERO, ZERO] }
+      })
+    )
+
+    expect(tokens.PT.realisedPnL).toEqual(units(20))
+    expect(tokens.PT.costBasis).toEqual(units(100))
+    expect(tokens.PT.value).toEqual(units(100))
+    expect(tokens.PT.unrealisedPnL).toEqual(ZERO)
+    expect(realisedPnL).toEqual(units(20))
+  })
+
+  it('should value the current balances at the current prices', () => {
+    const records = [swap(0, 'Underlying', 'PT', units(80), units(100))]
+
+    const { tokens, unrealisedPnL } = computeFuturePnL(
+      records,
+      position({
+        prices: { PT: ONE.mul(9).div(10), FYT: ZERO, LP: [ZERO, ZERO] },
+        balances: { PT: units(100), FYT: ZERO, LP: [ZERO, ZERO] }
+      })
+    )
+
+    expect(tokens.PT.value).toEqual(units(90))
+    expect(unrealisedPnL).toEqual(units(10))
+  })
+
+  it('should carry the cost of PT swapped for FYT', () => {
+    const records = [
+      swap(0, 'Underlying', 'PT', units(90), units(100)),
+      swap(1, 'PT', 'FYT', units(50), units(500))
+    ]
+
+    const { tokens, realisedPnL } = computeFuturePnL(
+      records,
+      position({
+        prices: { PT: ONE, FYT: ONE.div(10), LP: [ZERO, ZERO] },
+        balances: { PT: units(50), FYT: units(500), LP: [ZERO, ZERO] }
+      })
+    )
+
+    expect(realisedPnL).toEqual(ZERO)
+    expect(tokens.PT.costBasis).toEqual(units(45))
+    expect(tokens.FYT.costBasis).toEqual(units(45))
+  })
+
+  it('should split the cost of deposits between PT and FYT, valued by eventValues', () => {
+    const deposit: HistoryRecord = {
+      ...base(0),
+      type: 'Deposit',
+      amount: units(100)
+    }
+
+    const { tokens } = computeFuturePnL(
+      [deposit],
+      position({
+        prices: { PT: ONE.mul(9).div(10), FYT: ONE.div(10), LP: [ZERO, ZERO] },
+        balances: { PT: units(110), FYT: units(110), LP: [ZERO, ZERO] }
+      }),
+      { [getHistoryRecordKey(deposit)]: { value: units(110) } }
+    )
+
+    expect(tokens.PT.costBasis).toEqual(units(99))
+    expect(tokens.FYT.costBasis).toEqual(units(11))
+  })
+
+  it('should sum the liquidity of both pairs, and the futures with their accrued yield', () => {
+    const records: HistoryRecord[] = [
+      {
+        ...base(0),
+        type: 'AddLiquidity',
+        amm: '0x',
+        pairId: 0,
+        lpAmount: units(10)
+      },
+      {
+        ...base(1),
+        type: 'AddLiquidity',
+        amm: '0x',
+        pairId: 1,
+        lpAmount: units(10)
+      },
+      {
+        ...base(0, OTHER_FUTURE),
+        type: 'Swap',
+        amm: '0x',
+        pairId: 0,
+        tokenIn: 'Underlying',
+        tokenOut: 'PT',
+        amountIn: units(5),
+        amountOut: units(5)
+      }
+    ]
+    const eventValues = {
+      [getHistoryRecordKey(records[0])]: { value: units(20) },
+      [getHistoryRecordKey(records[1])]: { value: units(10) }
+    }
+
+    const report = computePnL(
+      records,
+      [
+        position({
+          prices: { PT: ONE, FYT: ZERO, LP: [units(3), units(1)] },
+          balances: { PT: ZERO, FYT: ZERO, LP: [units(10), units(10)] },
+          accruedYield: units(2)
+        }),
+        position({
+          future: OTHER_FUTURE,
+          balances: { PT: units(5), FYT: ZERO, LP: [ZERO, ZERO] },
+          accruedYield: units(1)
+        })
+      ],
+      eventValues
+    )
+
+    expect(report.futures[0].tokens.LP.value).toEqual(units(40))
+    expect(report.futures[0].tokens.LP.costBasis).toEqual(units(30))
+    expect(report.futures[0].totalPnL).toEqual(units(12))
+    expect(report.futures[1].totalPnL).toEqual(units(1))
+    expect(report.unrealisedPnL).toEqual(units(10))
+    expect(report.accruedYield).toEqual(units(3))
+    expect(report.totalPnL).toEqual(units(13))
+  })
+
+  it('should value every event at its block, and move the tokens added to a pool', async () => {
+    const records: HistoryRecord[] = [
+      { ...base(0), blockNumber: 10, type: 'Deposit', amount: units(100) },
+      {
+        ...base(1),
+        blockNumber: 20,
+        type: 'AddLiquidity',
+        amm: '0x',
+        pairId: 0,
+        lpAmount: units(10)
+      }
+    ]
+    // The IBT rate grows from 1 at the deposit to 1.1 now.
+    const vault = {
+      address: FUTURE,
+      convertIBTToUnderlying: jest.fn(
+        async (amount: BigNumber, { blockTag }: { blockTag?: number } = {}) =>
+          blockTag === 10 ? amount : amount.mul(11).div(10)
+      )
+    }
+    // PT and FYT were worth 0.9 and 0.1 at the deposit.
+    const pairs = [
+      [units(1000), units(900)],
+      [units(1000), units(9000)]
+    ]
+    const amm = {
+      getPairWithID: async (pairId: number) => ({
+        balances: pairs[pairId],
+        weights: [ONE.div(2), ONE.div(2)]
+      }),
+      ammId: async () => ZERO,
+      currentPeriodIndex: async () => BigNumber.from(1),
+      getLPTokenId: async () => ZERO,
+      getTotalSupplyWithTokenId: async () => units(100),
+      swapFee: jest.fn(async () => ZERO)
+    }
+
+    ;(fetchUserHistory as jest.Mock).mockResolvedValue(records)
+    ;(fetchRedeemablePositions as jest.Mock).mockResolvedValue([])
+    ;(fetchPortfolio as jest.Mock).mockResolvedValue([
+      {
+        vault,
+        amm,
+        prices: { PT: ONE.mul(8).div(10), FYT: ONE.div(5) },
+        lpPositions: [{ pairId: 0, periodIndex: 1, balance: units(10) }],
+        ptBalance: ZERO,
+        fytBalance: units(100),
+        claimableFYT: ZERO
+      }
+    ])
+    ;(fetchPoolState as jest.Mock).mockImplementation(
+      async (_signerOrProvider, _network, _amm, pairId) => ({
+        pairId,
+        periodIndex: BigNumber.from(1),
+        tvl: units(1900),
+        lpTotalSupply: units(100)
+      })
+    )
+
+    const report = await fetchPnL({} as Provider, 'mainnet', USER, {
+      fromBlock: 0
+    })
+    const { tokens } = report.futures[0]
+
+    expect(vault.convertIBTToUnderlying).toHaveBeenCalledWith(units(100), {
+      blockTag: 10
+    })
+    expect(amm.swapFee).toHaveBeenCalledWith({ blockTag: 10 })
+    // 100 PT and 100 FYT cost 90 and 10.
+    // The PT and 90 Underlying are then added to the pool.
+    expect(tokens.PT.costBasis).toEqual(ZERO)
+    expect(tokens.FYT.costBasis).toEqual(units(10))
+    expect(tokens.LP.costBasis).toEqual(units(180))
+    expect(tokens.LP.unrealisedPnL).toEqual(units(10))
+  })
+})
@@ -0,0 +1,71 @@
+import { parseEther } from 'ethers/lib/utils'
+import { DAY, YEAR } from '../src/constants'
+import {
+  getFixedAPR,
+  getFixedAPY,
+  getFutureRates,
+  getFYTImpliedYield,
+  getTimeToMaturity
+} from '../src/rates'
+
+describe('rates', () => {
+  describe('getTimeToMaturity', () => {
+    it('should return the seconds left until the next period', () => {
+      expect(getTimeToMaturity(1000 + DAY, 1000)).toEqual(DAY)
+    })
+
+    it('should return zero after the end of the period', () => {
+      expect(getTimeToMaturity(1000, 1000 + DAY)).toEqual(0)
+    })
+  })
+
+  describe('getFixedAPR', () => {
+    it('should annualize the discount of PT', () => {
+      expect(getFixedAPR(0.95, YEAR)).toBeCloseTo(5.263, 3)
+      expect(getFixedAPR(0.95, YEAR / 2)).toBeCloseTo(10.526, 3)
+    })
+
+    it('should be zero at maturity', () => {
+      expect(getFixedAPR(0.95, 0)).toEqual(0)
+    })
+  })
+
+  describe('getFixedAPY', () => {
+    it('should equal the APR over a year', () => {
+      expect(getFixedAPY(0.95, YEAR)).toBeCloseTo(getFixedAPR(0.95, YEAR), 10)
+    })
+
+    it('should compound shorter periods', () => {
+      expect(getFixedAPY(0.95, YEAR / 2)).toBeCloseTo(10.803, 3)
+    })
+  })
+
+  describe('getFYTImpliedYield', () => {
+    it('should derive the yield from the FYT price', () => {
+      const { periodYield, apr } = getFYTImpliedYield(0.05, YEAR / 2)
+
+      expect(periodYield).toBeCloseTo(5.263, 3)
+      expect(apr).toBeCloseTo(10.526, 3)
+    })
+
+    it('should be zero for invalid prices', () => {
+      expect(getFYTImpliedYield(1, YEAR)).toEqual({ periodYield: 0, apr: 0 })
+    })
+  })
+
+  describe('getFutureRates', () => {
+    it('should calculate all rates from spot prices', () => {
+      const rates = getFutureRates(
+        parseEther('0.95'),
+        parseEther('0.05'),
+        YEAR + 100,
+        100
+      )
+
+      expect(rates.daysToMaturity).toEqual(YEAR / DAY)
+      expect(rates.ptPrice).toEqual(0.95)
+      expect(rates.fixedAPR).toBeCloseTo(5.263, 3)
+      expect(rates.fytImpliedAPR).toBeCloseTo(5.263, 3)
+    })
+  })
+})
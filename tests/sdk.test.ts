@@ -129,6 +129,79 @@ describe('APWineSDK', () => {
       expect(balance.gt(newBalance)).toBeTruthy()
     })
 
+    it('Should be able to simulate a swap without sending it', async () => {
+      await sdk.ready
+
+      const [amm] = await sdk.fetchAllAMMs()
+      const user = await signer.getAddress()
+      const nonce = await sdk.provider.getTransactionCount(user)
+      const swap = await sdk.swapIn(
+        { from: 'PT', to: 'Underlying', amm, amount: parseUnits('1', 18) },
+        { simulate: true }
+      )
+
+      expect(swap.transaction).toBeUndefined()
+      expect(swap.simulation?.gasEstimate.gt(0)).toBeTruthy()
+      expect(await sdk.provider.getTransactionCount(user)).toEqual(nonce)
+    })
+
+    it('Should fall back to the classic approval for tokens without permits', async () => {
+      await sdk.ready
+
+      const [amm] = await sdk.fetchAllAMMs()
+      const ptAddress = await amm.getPTAddress()
+      const relayPermit = jest.fn()
+
+      expect(await sdk.isPermitSupported(ptAddress)).toBeFalsy()
+
+      const approval = await sdk.approve(
+        ethers.Wallet.createRandom().address,
+        ptAddress,
+        parseUnits('1', 18),
+        { relayPermit }
+      )
+
+      expect(relayPermit).not.toHaveBeenCalled()
+      expect(approval.transaction).toBeDefined()
+    })
+
+    it('Should be able to quote a swap without a signer', async () => {
+      await sdk.ready
+
+      const [amm] = await sdk.fetchAllAMMs()
+      const quote = await sdk.quoteSwapIn({
+        from: 'Underlying',
+        to: 'FYT',
+        amm,
+        amount: parseUnits('10', 18)
+      })
+
+      if (isError(quote)) {
+        // eslint-disable-next-line no-undef
+        fail()
+      }
+
+      expect(quote.poolPath).toEqual([0, 1])
+      expect(quote.amountOut.lt(quote.tokenAmount)).toBeTruthy()
+      expect(quote.priceImpact).toBeGreaterThanOrEqual(0)
+    })
+
+    it('should be able to populate a transaction with a provider only', async () => {
+      const user = await signer.getAddress()
+      const readOnlySdk = new APWineSDK({ provider, network: 'mainnet' })
+      await readOnlySdk.ready
+
+      const [vault] = await readOnlySdk.fetchAllFutureVaults()
+      const result = await readOnlySdk.withdraw(vault, parseEther('1'), {
+        populate: true,
+        from: user
+      })
+
+      expect(result?.transaction).toBeUndefined()
+      expect(result?.populatedTransaction?.from).toEqual(user)
+      expect(result?.populatedTransaction?.data).toBeDefined()
+    })
+
     it.skip('Should be able to swapOut', async () => {
       await sdk.ready
 
@@ -177,6 +250,57 @@ describe('APWineSDK', () => {
       expect(balance.lt(newBalance)).toBeTruthy()
     })
 
+    it('should be able to quote adding and removing liquidity', async () => {
+      await sdk.ready
+
+      const [amm] = await sdk.fetchAllAMMs()
+      const addQuote = await sdk.quoteAddLiquidity({
+        amm,
+        pairId: 0,
+        amount: parseEther('0.1')
+      })
+      const removeQuote = await sdk.quoteRemoveLiquidity({
+        amm,
+        pairId: 0,
+        amount: parseEther('0.1')
+      })
+
+      if (isError(addQuote) || isError(removeQuote)) {
+        // eslint-disable-next-line no-undef
+        fail()
+      }
+
+      addQuote.amountsIn.forEach((amount, i) =>
+        expect(addQuote.maxAmountsIn[i].gte(amount)).toBeTruthy()
+      )
+      removeQuote.amountsOut.forEach((amount, i) =>
+        expect(removeQuote.minAmountsOut[i].lte(amount)).toBeTruthy()
+      )
+    })
+
+    it('should be able to quote a zap in from Underlying', async () => {
+      await sdk.ready
+
+      const [amm] = await sdk.fetchAllAMMs()
+      const quote = await sdk.quoteZapIn({
+        amm,
+        pairId: 0,
+        token: 'Underlying',
+        amount: parseEther('10')
+      })
+
+      if (isError(quote)) {
+        // eslint-disable-next-line no-undef
+        fail()
+      }
+
+      expect(quote.legs.map(({ type }) => type)).toEqual([
+        'Swap',
+        'AddLiquidity'
+      ])
+      expect(quote.amountOut.gt(0)).toBeTruthy()
+    })
+
     it('should be able to remove liquidity', async () => {
       await sdk.ready
 
@@ -204,6 +328,115 @@ describe('APWineSDK', () => {
       expect(balance.gt(newBalance)).toBeTruthy()
     })
 
+    it('should be able to fetch the portfolio of a user', async () => {
+      await sdk.ready
+
+      const vaults = await sdk.fetchAllFutureVaults()
+      const portfolio = await sdk.fetchPortfolio()
+
+      expect(portfolio.length).toEqual(vaults.length)
+      portfolio.forEach((position) => {
+        expect(position.value.total.gte(position.value.PT)).toBeTruthy()
+      })
+    })
+
+    it('should be able to fetch the FYTs of every period', async () => {
+      const fyts = await sdk.fetchAllFYTs()
+
+      expect(fyts.length).toBeGreaterThan(0)
+      fyts.forEach((fyt) => {
+        expect(fyt.address).not.toEqual(fyt.vault.address)
+        expect(fyt.symbol).toBeDefined()
+      })
+    })
+
+    it('should be able to fetch claimable FYTs', async () => {
+      await sdk.ready
+
+      const vaults = await sdk.fetchAllFutureVaults()
+      const claimables = await sdk.fetchAllClaimableFYT()
+
+      expect(claimables.length).toEqual(vaults.length)
+      claimables.forEach(({ amount }) => expect(amount.gte(0)).toBeTruthy())
+    })
+
+    it('should be able to fetch the state of every pool', async () => {
+      await sdk.ready
+
+      const amms = await sdk.fetchAllAMMs()
+      const pools = await sdk.fetchAllPoolStates()
+
+      expect(pools.length).toEqual(amms.length * 2)
+      pools.forEach((pool) => {
+        expect(pool.reserves.length).toEqual(2)
+        expect(pool.weights.length).toEqual(2)
+        expect(pool.tvl.gte(0)).toBeTruthy()
+      })
+    })
+
+    it('should be able to fetch the history of a user', async () => {
+      await sdk.ready
+
+      const user = await signer.getAddress()
+      const latestBlock = await provider.getBlockNumber()
+      const history = await sdk.fetchUserHistory({
+        account: user,
+        fromBlock: latestBlock - 5000
+      })
+
+      history.forEach((record) => expect(record.user).toEqual(user))
+    })
+
+    it('should be able to fetch the tokens of a future, with their decimals', async () => {
+      await sdk.ready
+
+      const [vault] = await sdk.fetchAllFutureVaults()
+      const tokens = await sdk.fetchFutureTokens(vault)
+      const balance = await sdk.fetchTokenBalance(tokens.PT.address)
+
+      expect(tokens.PT.role).toEqual('PT')
+      expect(tokens.LP[0].address).toEqual(tokens.LP[1].address)
+      expect(balance.token.decimals).toEqual(tokens.PT.decimals)
+    })
+
+    it('should be able to fetch the PnL of a user', async () => {
+      await sdk.ready
+
+      const latestBlock = await provider.getBlockNumber()
+      const report = await sdk.fetchPnL({
+        account: await signer.getAddress(),
+        fromBlock: latestBlock - 5000
+      })
+
+      expect(
+        report.futures.reduce(
+          (acc, { totalPnL }) => acc.add(totalPnL),
+          BigNumber.from(0)
+        )
+      ).toEqual(report.totalPnL)
+    })
+
+    it('should be able to fetch the period history of an AMM', async () => {
+      await sdk.ready
+
+      const [amm] = await sdk.fetchAllAMMs()
+      const currentPeriodIndex = (await amm.currentPeriodIndex()).toNumber()
+      const periods = await sdk.fetchAMMPeriods(amm)
+
+      expect(periods.map(({ periodIndex }) => periodIndex)).toEqual(
+        Array.from({ length: currentPeriodIndex + 1 }, (_, i) => i)
+      )
+      const { startTimestamp, endTimestamp } = periods[currentPeriodIndex]
+
+      expect(endTimestamp?.gt(startTimestamp ?? endTimestamp)).toBeTruthy()
+      periods.forEach((period) => {
+        expect(period.lpTokenIds.length).toEqual(2)
+        // Without a block range, past periods are not read.
+        expect(period.reserves === null).toEqual(!period.isCurrent)
+        expect(period.startTimestamp === null).toEqual(!period.isCurrent)
+      })
+    })
+
     it('should be able to fetch spot price.', async () => {
       const vaults = await sdk.fetchAllFutureVaults()
       const result = await sdk.fetchSpotPrice(vaults[0], 'PT', 'Underlying')
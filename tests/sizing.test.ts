@@ -0,0 +1,102 @@
+import { parseEther } from 'ethers/lib/utils'
+import { DAY, YEAR } from '../src/constants'
+import { InvalidSwapRouteError } from '../src/errors'
+import { getFixedAPY, priceToNumber } from '../src/rates'
+import {
+  findMaxTradeForFixedAPY,
+  findMaxTradeForPriceImpact,
+  findMaxTradeForSpotPrice
+} from '../src/sizing'
+import { LocalSwapQuote } from '../src/types'
+import { isError } from '../src/utils/general'
+import { quoteSwapFromPools } from '../src/utils/math'
+import { createPool } from './fixtures'
+
+// PT is worth 0.95 Underlying, and FYT 0.08 PT.
+const poolStates = {
+  0: createPool(['1000', '950']),
+  1: createPool(['1000', '80'])
+}
+
+// Quote a slightly larger trade, to check that the limit is crossed right after the solution.
+const quoteMore = (quote: LocalSwapQuote) =>
+  quoteSwapFromPools(
+    poolStates,
+    'IN',
+    quote.from,
+    quote.to,
+    quote.amountIn.mul(1001).div(1000)
+  ) as LocalSwapQuote
+
+describe('sizing', () => {
+  it('should find the largest trade under a price impact cap', () => {
+    const quote = findMaxTradeForPriceImpact(
+      poolStates,
+      'Underlying',
+      'FYT',
+      1
+    ) as LocalSwapQuote
+
+    expect(quote.amountIn.gt(0)).toBeTruthy()
+    expect(quote.priceImpact).toBeLessThanOrEqual(1)
+    expect(quoteMore(quote).priceImpact).toBeGreaterThan(1)
+  })
+
+  it('should find the largest trade under a target spot price', () => {
+    const spotPrice = parseEther('1')
+    const quote = findMaxTradeForSpotPrice(
+      poolStates,
+      'Underlying',
+      'PT',
+      spotPrice
+    ) as LocalSwapQuote
+
+    expect(quote.spotPriceBefore.lt(spotPrice)).toBeTruthy()
+    expect(quote.spotPriceAfter.lte(spotPrice)).toBeTruthy()
+    expect(quoteMore(quote).spotPriceAfter.gt(spotPrice)).toBeTruthy()
+  })
+
+  it('should not trade when the target is already crossed', () => {
+    const quote = findMaxTradeForSpotPrice(
+      poolStates,
+      'Underlying',
+      'PT',
+      parseEther('0.5')
+    ) as LocalSwapQuote
+
+    expect(quote.amountIn.isZero()).toBeTruthy()
+  })
+
+  it('should find the largest PT purchase above a fixed APY', () => {
+    const now = 1000000
+    const nextPeriodTimestamp = now + YEAR / 2
+    const quote = findMaxTradeForFixedAPY(
+      poolStates,
+      'Underlying',
+      'PT',
+      8,
+      nextPeriodTimestamp,
+      now
+    ) as LocalSwapQuote
+    const apy = ({ spotPriceAfter }: LocalSwapQuote) =>
+      getFixedAPY(priceToNumber(spotPriceAfter), YEAR / 2)
+
+    expect(quote.amountIn.gt(0)).toBeTruthy()
+    expect(apy(quote)).toBeGreaterThanOrEqual(8)
+    expect(apy(quoteMore(quote))).toBeLessThan(8)
+  })
+
+  it('should only size fixed APY trades between Underlying and PT', () => {
+    const quote = findMaxTradeForFixedAPY(
+      poolStates,
+      'Underlying',
+      'FYT',
+      8,
+      DAY
+    )
+
+    expect(isError(quote) && quote.error).toBeInstanceOf(
+      InvalidSwapRouteError
+    )
+  })
+})
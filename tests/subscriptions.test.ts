@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events'
+import { Provider } from '@ethersproject/providers'
+import { BigNumber } from 'ethers'
+import { subscribe } from '../src/subscriptions'
+import { error } from '../src/utils/general'
+
+const createProvider = () => {
+  const emitter = new EventEmitter()
+
+  return {
+    provider: emitter as unknown as Provider,
+    mineBlock: () => emitter.emit('block')
+  }
+}
+
+// Settle the pending fetches, which only chain promises.
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve()
+  }
+}
+
+describe('subscriptions', () => {
+  beforeEach(() => jest.useFakeTimers())
+  afterEach(() => jest.useRealTimers())
+
+  it('should fetch once per burst of blocks, and only emit changes', async () => {
+    const { provider, mineBlock } = createProvider()
+    const values = [1, 1, 2]
+    const fetchValue = jest.fn(async () => BigNumber.from(values.shift()))
+    const listener = jest.fn()
+
+    subscribe(provider, fetchValue, listener, { debounce: 100 })
+    await flush()
+
+    mineBlock()
+    mineBlock()
+    jest.advanceTimersByTime(100)
+    await flush()
+
+    mineBlock()
+    jest.advanceTimersByTime(100)
+    await flush()
+
+    expect(fetchValue).toHaveBeenCalledTimes(3)
+    expect(listener.mock.calls.map(([value]) => value.toNumber())).toEqual([
+      1, 2
+    ])
+  })
+
+  it('should pass errors to onError', async () => {
+    const { provider } = createProvider()
+    const listener = jest.fn()
+    const onError = jest.fn()
+
+    subscribe(provider, async () => error('NoSigner'), listener, { onError })
+    await flush()
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it('should pass the errors of asynchronous listeners to onError', async () => {
+    const { provider } = createProvider()
+    const failure = new Error('cache unavailable')
+    const onError = jest.fn()
+
+    subscribe(
+      provider,
+      async () => 1,
+      () => Promise.reject(failure),
+      { onError }
+    )
+    await flush()
+
+    expect(onError).toHaveBeenCalledWith(failure)
+  })
+
+  it('should stop fetching once unsubscribed', async () => {
+    const { provider, mineBlock } = createProvider()
+    const fetchValue = jest.fn(async () => 1)
+
+    const { unsubscribe } = subscribe(provider, fetchValue, jest.fn(), {
+      debounce: 100
+    })
+    await flush()
+
+    unsubscribe()
+    mineBlock()
+    jest.advanceTimersByTime(100)
+    await flush()
+
+    expect(fetchValue).toHaveBeenCalledTimes(1)
+  })
+})
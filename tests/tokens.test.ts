@@ -0,0 +1,99 @@
+import { BigNumber } from 'ethers'
+import { parseUnits } from 'ethers/lib/utils'
+import {
+  withPoolStateTokenAmounts,
+  withSwapQuoteTokenAmounts,
+  withZapQuoteTokenAmounts
+} from '../src/tokens'
+import {
+  FutureTokens,
+  PoolState,
+  SwapQuote,
+  TokenMetadata,
+  ZapQuote
+} from '../src/types'
+
+const token = (
+  symbol: string,
+  decimals: number,
+  index: number
+): TokenMetadata => ({
+  address: `0x${String(index).padStart(40, '0')}`,
+  symbol,
+  name: symbol,
+  decimals,
+  chainId: 1
+})
+
+// The tokens of a USDC future have 6 decimals, LP tokens have 18.
+const tokens: FutureTokens = {
+  IBT: token('aUSDC', 6, 1),
+  Underlying: token('USDC', 6, 2),
+  PT: token('PT-aUSDC', 6, 3),
+  FYT: token('FYT-aUSDC', 6, 4),
+  LP: [token('PT-USDC-LP', 18, 5), token('PT-FYT-LP', 18, 5)]
+}
+
+describe('token amounts', () => {
+  it('should attach the amounts of a swap quote with the decimals of their tokens', () => {
+    const quote = withSwapQuoteTokenAmounts(tokens, {
+      swapType: 'OUT',
+      from: 'Underlying',
+      to: 'PT',
+      amount: parseUnits('10', 6),
+      tokenAmount: parseUnits('9.5', 6),
+      amountIn: parseUnits('9.6', 6),
+      amountOut: parseUnits('10', 6)
+    } as SwapQuote)
+
+    expect(quote.tokenAmounts.amountIn.toExact()).toEqual('9.6')
+    expect(quote.tokenAmounts.amountIn.token.symbol).toEqual('USDC')
+    expect(quote.tokenAmounts.amountOut.token.symbol).toEqual('PT-aUSDC')
+    // The amount of a quote out is paid in.
+    expect(quote.tokenAmounts.tokenAmount.token.symbol).toEqual('USDC')
+    expect(quote.amountIn).toEqual(parseUnits('9.6', 6))
+  })
+
+  it('should attach the amounts of a pool state in the tokens of its pair', () => {
+    const state = withPoolStateTokenAmounts(tokens, {
+      pairId: 1,
+      reserves: [parseUnits('100', 6), parseUnits('2000', 6)],
+      lpTotalSupply: parseUnits('50', 18),
+      tvl: parseUnits('120', 6)
+    } as PoolState)
+
+    expect(
+      state.tokenAmounts.reserves.map((amount) => amount.token.symbol)
+    ).toEqual(['PT-aUSDC', 'FYT-aUSDC'])
+    expect(state.tokenAmounts.lpTotalSupply.toExact()).toEqual('50')
+    expect(state.tokenAmounts.tvl.toExact()).toEqual('120')
+  })
+
+  it('should attach LP tokens in and out of zap quotes', () => {
+    const quote = {
+      pairId: 0,
+      token: 'IBT',
+      amount: BigNumber.from(1000000),
+      amountOut: parseUnits('2', 18)
+    }
+    const zapIn = withZapQuoteTokenAmounts(tokens, {
+      ...quote,
+      direction: 'IN'
+    } as ZapQuote)
+
+    expect(zapIn.tokenAmounts.amount.toExact()).toEqual('1')
+    expect(zapIn.tokenAmounts.amountOut.toExact()).toEqual('2')
+    expect(zapIn.tokenAmounts.amountOut.token.symbol).toEqual('PT-USDC-LP')
+
+    const zapOut = withZapQuoteTokenAmounts(tokens, {
+      ...quote,
+      direction: 'OUT',
+      token: 'Underlying',
+      amount: parseUnits('2', 18),
+      amountOut: BigNumber.from(1000000)
+    } as ZapQuote)
+
+    expect(zapOut.tokenAmounts.amount.token.symbol).toEqual('PT-USDC-LP')
+    expect(zapOut.tokenAmounts.amountOut.toExact()).toEqual('1')
+  })
+})
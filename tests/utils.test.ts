@@ -1,4 +1,30 @@
-import { findSwapPath, howToSwap } from '../src/utils/swap'
+import { BaseContract, BigNumber, ethers } from 'ethers'
+import { parseEther } from 'ethers/lib/utils'
+import { findSwapPath, getDeadline, getPriceImpact, howToSwap, isValidSlippage, toUnderlying } from '../src/utils/swap'
+import {
+  error,
+  getNetworkByChainId,
+  getNetworkChainId,
+  getNetworkConfig,
+  isError,
+  registerNetwork
+} from '../src/utils/general'
+import {
+  formatTokenAmount,
+  parseTokenAmount,
+  toBigNumber,
+  toTokenAmount
+} from '../src/utils/tokens'
+import { TokenMetadata } from '../src/types'
+import { sendTransaction } from '../src/utils/transactions'
+import {
+  ContractError,
+  decodeContractError,
+  decodeRevertData,
+  InvalidNetworkConfigError,
+  NoSignerError,
+  UnsupportedNetworkError
+} from '../src/errors'
 
 describe('utils tests', () => {
   describe('swap utils', () => {
@@ -37,4 +63,203 @@ describe('utils tests', () => {
       expect(visual).toEqual('Underlying->PT->FYT')
     })
   })
+
+  describe('getPriceImpact', () => {
+    it('should be zero when trading at spot price', () => {
+      expect(getPriceImpact(parseEther('2'), parseEther('1'), parseEther('2'))).toEqual(0)
+    })
+
+    it('should return the percentage difference from the spot price', () => {
+      expect(getPriceImpact(parseEther('101'), parseEther('100'), parseEther('1'))).toEqual(1)
+    })
+  })
+
+  describe('isValidSlippage', () => {
+    it('should only accept slippage tolerances between 0.1 and 100', () => {
+      expect(isValidSlippage(0.5)).toBeTruthy()
+      expect(isValidSlippage(0.05)).toBeFalsy()
+      expect(isValidSlippage(101)).toBeFalsy()
+    })
+  })
+
+  describe('toUnderlying', () => {
+    it('should value an amount at an 18 decimals price', () => {
+      expect(toUnderlying(parseEther('10'), parseEther('0.95'))).toEqual(parseEther('9.5'))
+    })
+  })
+
+  describe('getDeadline', () => {
+    it('should return a timestamp in seconds', () => {
+      const now = Math.floor(Date.now() / 1000)
+
+      expect(getDeadline(new Date(1650000000500))).toEqual(1650000000)
+      expect(getDeadline() - now).toBeGreaterThanOrEqual(60)
+      expect(getDeadline() - now).toBeLessThanOrEqual(61)
+    })
+  })
+
+  describe('errors', () => {
+    it('should create typed errors from error codes', () => {
+      const result = error('NoSigner')
+
+      expect(isError(result)).toBeTruthy()
+      expect(result.error).toBeInstanceOf(NoSignerError)
+      expect(result.error.code).toEqual('NoSigner')
+    })
+
+    it('should not treat regular results as errors', () => {
+      expect(isError({ transaction: undefined })).toBeFalsy()
+      expect(isError(parseEther('1'))).toBeFalsy()
+    })
+
+    it('should decode revert reasons from revert data', () => {
+      const data = new ethers.utils.Interface([
+        'function Error(string)'
+      ]).encodeFunctionData('Error', ['ERR_MAX_IN_RATIO'])
+
+      expect(decodeRevertData(data)).toEqual('ERR_MAX_IN_RATIO')
+      expect(decodeRevertData('0x')).toBeUndefined()
+    })
+
+    it('should find revert reasons in nested provider errors', () => {
+      const e = decodeContractError(
+        {
+          error: {
+            message:
+              'VM Exception while processing transaction: execution reverted: Deposits are paused'
+          }
+        },
+        ethers.constants.AddressZero,
+        'deposit'
+      )
+
+      expect(e).toBeInstanceOf(ContractError)
+      expect(e.reason).toEqual('Deposits are paused')
+      expect(e.method).toEqual('deposit')
+    })
+  })
+
+  describe('token utils', () => {
+    const usdc: TokenMetadata = {
+      address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+      chainId: 1,
+      role: 'Underlying'
+    }
+
+    it('should parse and format amounts with the decimals of the token', () => {
+      const amount = parseTokenAmount(usdc, '1.5')
+
+      expect(toBigNumber(amount).toString()).toEqual('1500000')
+      expect(amount.toExact()).toEqual('1.5')
+      expect(formatTokenAmount(usdc, amount)).toEqual('1.5')
+      expect(formatTokenAmount(usdc, 2500000)).toEqual('2.5')
+    })
+
+    it('should accept raw amounts and TokenAmounts as amounts', () => {
+      const amount = toTokenAmount(usdc, 42)
+
+      expect(toBigNumber(amount).toNumber()).toEqual(42)
+      expect(toBigNumber('42').toNumber()).toEqual(42)
+      expect(amount.token.symbol).toEqual('USDC')
+    })
+  })
+
+  describe('network utils', () => {
+    const fork = {
+      chainId: 31337,
+      name: 'localhost',
+      AMM_REGISTRY: '0x6646a35e74e35585b0b02e5190445a324e5d4d01',
+      AMM_ROUTER: '0xf5ba2E5DdED276fc0f7a7637A61157a4be79C626',
+      REGISTRY_ADDRESS: '0x72d15EAE2Cd729D8F2e41B1328311f3e275612B9'
+    }
+
+    it('should read the built-in networks by name or chain id', () => {
+      expect(getNetworkConfig('mainnet')).toEqual(getNetworkConfig(1))
+      expect(getNetworkConfig(BigNumber.from(137)).name).toEqual('polygon')
+      expect(getNetworkChainId('kovan')).toEqual(42)
+    })
+
+    it('should register custom networks', () => {
+      const registered = registerNetwork(fork)
+
+      expect(isError(registered)).toBeFalsy()
+      expect(getNetworkConfig('localhost').AMM_REGISTRY).toEqual(
+        '0x6646A35e74e35585B0B02e5190445A324E5D4D01'
+      )
+      expect(getNetworkChainId('localhost')).toEqual(31337)
+      expect(getNetworkByChainId(31337)).toEqual('localhost')
+    })
+
+    it('should reject invalid network configs', () => {
+      const invalid = [
+        { ...fork, chainId: -1 },
+        { ...fork, AMM_ROUTER: '0x1234' },
+        { ...fork, MULTICALL_ADDRESS: 'multicall' },
+        { ...fork, chainId: 31338, name: 'mainnet' }
+      ]
+
+      invalid.forEach((networkConfig) => {
+        const result = registerNetwork(networkConfig)
+
+        expect(isError(result) && result.error).toBeInstanceOf(
+          InvalidNetworkConfigError
+        )
+      })
+    })
+
+    it('should throw a clear error for unsupported networks', () => {
+      expect(() => getNetworkConfig(1234)).toThrow(UnsupportedNetworkError)
+      expect(() => getNetworkConfig('unknown')).toThrow('Network: unknown')
+    })
+  })
+
+  describe('transaction utils', () => {
+    const createContract = (call: () => Promise<unknown>) =>
+      ({
+        address: ethers.constants.AddressZero,
+        callStatic: { swap: call },
+        estimateGas: { swap: async () => BigNumber.from(100000) },
+        provider: {
+          getFeeData: async () => ({
+            maxFeePerGas: BigNumber.from(2),
+            gasPrice: BigNumber.from(1)
+          })
+        }
+      } as unknown as BaseContract)
+
+    it('should simulate a transaction instead of sending it', async () => {
+      const result = await sendTransaction(
+        createContract(async () => BigNumber.from(42)),
+        'swap' as never,
+        [] as never,
+        { simulate: true }
+      )
+
+      expect(result.transaction).toBeUndefined()
+      expect(result.simulation?.result).toEqual(BigNumber.from(42))
+      expect(result.simulation?.gasEstimate.toNumber()).toEqual(100000)
+      expect(result.simulation?.estimatedFee?.toNumber()).toEqual(200000)
+    })
+
+    it('should return the decoded revert reason of a failed simulation', async () => {
+      const data = new ethers.utils.Interface([
+        'function Error(string)'
+      ]).encodeFunctionData('Error', ['ERR_MAX_IN_RATIO'])
+
+      const result = await sendTransaction(
+        createContract(async () => {
+          throw Object.assign(new Error('call revert exception'), { data })
+        }),
+        'swap' as never,
+        [] as never,
+        { simulate: true }
+      )
+
+      expect(result.error).toBeInstanceOf(ContractError)
+      expect((result.error as ContractError).reason).toEqual('ERR_MAX_IN_RATIO')
+    })
+  })
 })